@@ -0,0 +1,214 @@
+// 规则回测：用日线 OHLCV 机械计算清单里能算的条目，得分上穿阈值时次日开盘买入（仅做多）
+// 仓位与成本由调用方按账户规则提供（size / pnl 回调），离场沿用 replayExit 的止损/目标/跟踪/时间规则
+
+import { Bar, ExitRule, ReplayExit, replayExit } from "./bars";
+
+export type Indicators = {
+  ma5: number[];
+  ma10: number[];
+  ma20: number[];
+  hh20: number[];   // 之前 20 根的最高价（不含当根）
+  hh250: number[];  // 之前 250 根内的最高价（不足 250 根按已有的算）
+  vol20: number[];  // 之前 20 根的平均成交量
+  dif: number[];
+  dea: number[];
+  atr: number[];
+  hasVolume: boolean; // 日线带成交量；没有时放量类条目视为不可计算
+};
+
+// 缺失值（NaN，如个别日线没有成交量）不计入窗口，按窗口内的有效值平均
+function sma(xs: number[], n: number) {
+  let sum = 0;
+  let cnt = 0;
+  return xs.map((x, i) => {
+    if (Number.isFinite(x)) {
+      sum += x;
+      cnt++;
+    }
+    if (i >= n && Number.isFinite(xs[i - n])) {
+      sum -= xs[i - n];
+      cnt--;
+    }
+    return i >= n - 1 && cnt > 0 ? sum / cnt : NaN;
+  });
+}
+
+function ema(xs: number[], n: number) {
+  const k = 2 / (n + 1);
+  let prev = NaN;
+  return xs.map((x, i) => (prev = i === 0 ? x : x * k + prev * (1 - k)));
+}
+
+// 之前 n 根（不含当根）的最大值；minLen 为至少需要的根数
+function prevMax(xs: number[], n: number, minLen = n) {
+  return xs.map((_, i) => (i >= minLen ? Math.max(...xs.slice(Math.max(0, i - n), i)) : NaN));
+}
+
+export function calcIndicators(bars: Bar[], atrN = 14): Indicators {
+  const c = bars.map((b) => b.c);
+  const v = bars.map((b) => b.v ?? NaN);
+  const slow = ema(c, 26);
+  const dif = ema(c, 12).map((x, i) => x - slow[i]);
+  const tr = bars.map((b, i) => (i ? Math.max(b.h - b.l, Math.abs(b.h - bars[i - 1].c), Math.abs(b.l - bars[i - 1].c)) : b.h - b.l));
+  return {
+    ma5: sma(c, 5),
+    ma10: sma(c, 10),
+    ma20: sma(c, 20),
+    hh20: prevMax(bars.map((b) => b.h), 20),
+    hh250: prevMax(bars.map((b) => b.h), 250, 60),
+    vol20: sma(v, 20).map((_, i, a) => (i ? a[i - 1] : NaN)),
+    dif,
+    dea: ema(dif, 9),
+    atr: sma(tr, atrN),
+    hasVolume: hasVolume(bars),
+  };
+}
+
+export function hasVolume(bars: Bar[]) {
+  return bars.some((b) => typeof b.v === "number");
+}
+
+// 放量：成交量超过之前 20 根均量的 1.5 倍
+const VOL_X = 1.5;
+
+function volUp(bars: Bar[], x: Indicators, i: number) {
+  return (bars[i].v ?? 0) > VOL_X * x.vol20[i];
+}
+
+function breakout(bars: Bar[], x: Indicators, i: number) {
+  return bars[i].c > x.hh20[i];
+}
+
+// 按清单条目 key 机械判断；不在表里的条目（支撑、估值、周线等）无法计算，volume 条目需要日线带成交量
+export const AUTO_ITEMS: Record<string, { t: string; volume?: boolean; fn: (bars: Bar[], x: Indicators, i: number) => boolean }> = {
+  maBull: { t: "MA5 > MA10 > MA20", fn: (_, x, i) => x.ma5[i] > x.ma10[i] && x.ma10[i] > x.ma20[i] },
+  aboveMA20: { t: "收盘 > MA20", fn: (b, x, i) => b[i].c > x.ma20[i] },
+  breakout: { t: "收盘突破前 20 日最高", fn: breakout },
+  breakoutVol: { t: `突破且成交量 > 20 日均量 × ${VOL_X}`, volume: true, fn: (b, x, i) => breakout(b, x, i) && volUp(b, x, i) },
+  momentumOk: { t: "MACD DIF > DEA 且 DIF > 0", fn: (_, x, i) => x.dif[i] > x.dea[i] && x.dif[i] > 0 },
+  drawdown30: { t: "收盘较前 250 日最高回落 > 30%", fn: (b, x, i) => b[i].c < 0.7 * x.hh250[i] },
+  firstVolUp: { t: `阳线且成交量 > 20 日均量 × ${VOL_X}`, volume: true, fn: (b, x, i) => b[i].c > b[i].o && volUp(b, x, i) },
+  macdTurn: {
+    t: "近 3 日 MACD 零轴下金叉",
+    fn: (_, x, i) => {
+      for (let j = Math.max(1, i - 2); j <= i; j++) if (x.dif[j] < 0 && x.dif[j - 1] <= x.dea[j - 1] && x.dif[j] > x.dea[j]) return true;
+      return false;
+    },
+  },
+};
+
+// 该条目在这组日线上能否计算
+export function autoItem(k: string, volume: boolean) {
+  const a = AUTO_ITEMS[k];
+  return a && (!a.volume || volume) ? a : undefined;
+}
+
+export type BacktestItem = { k: string; w: number; mandatory?: boolean };
+
+// unknown = "scale"：只按可计算条目的权重折算为 100 分；"fail"：不可计算条目一律视为未满足
+export function autoScore(items: BacktestItem[], bars: Bar[], x: Indicators, i: number, unknown: "scale" | "fail") {
+  const auto = items.filter((it) => autoItem(it.k, x.hasVolume));
+  const base = unknown === "scale" ? auto : items;
+  const total = base.reduce((s, it) => s + it.w, 0);
+  const hits = auto.filter((it) => AUTO_ITEMS[it.k].fn(bars, x, i));
+  const mandatoryOk = base.every((it) => !it.mandatory || hits.includes(it));
+  return { score: total > 0 ? Math.round((hits.reduce((s, it) => s + it.w, 0) / total) * 100) : 0, mandatoryOk };
+}
+
+export type ExitSpec = { kind: "target"; r: number } | { kind: "trail"; r: number } | { kind: "time"; days: number };
+
+export type BacktestConfig = {
+  items: BacktestItem[];
+  threshold: number;                 // 得分上穿该值时入场
+  unknown: "scale" | "fail";
+  atrK: number;                      // 止损 = 入场价 − atrK × ATR
+  exit: ExitSpec;
+  startEquity: number;
+  size: (equity: number, entry: number, stop: number) => number;
+  pnl: (entry: number, exit: number, size: number) => number;
+  multiplier?: number;
+};
+
+export type BacktestTrade = {
+  symbol: string;
+  score: number;
+  signalTs: number;
+  entryTs: number;
+  entry: number;
+  stop: number;
+  exitTs: number;
+  exit: number;
+  reason: ReplayExit["reason"];
+  size: number;
+  pnl: number;
+  r: number;
+};
+
+// 每个代码同一时间只持有一笔；多个代码的仓位可重叠，仓位按入场时已实现的权益计算（不检查资金占用）
+export function runBacktest(bySymbol: Record<string, Bar[]>, cfg: BacktestConfig) {
+  const m = cfg.multiplier || 1;
+  const signals: Omit<BacktestTrade, "size" | "pnl" | "r">[] = [];
+
+  Object.keys(bySymbol).forEach((symbol) => {
+    const bars = bySymbol[symbol];
+    const x = calcIndicators(bars);
+    let prev = 0;
+    let busyUntil = -1;
+    for (let i = 0; i < bars.length - 1; i++) {
+      const { score, mandatoryOk } = autoScore(cfg.items, bars, x, i, cfg.unknown);
+      const cross = mandatoryOk && score >= cfg.threshold && prev < cfg.threshold;
+      prev = mandatoryOk ? score : 0;
+      if (!cross || i < busyUntil || !(x.atr[i] > 0)) continue;
+
+      const j = i + 1;
+      const entry = bars[j].o;
+      const stop = entry - cfg.atrK * x.atr[i];
+      if (!(stop > 0)) continue;
+      const risk = entry - stop;
+      const rule: ExitRule =
+        cfg.exit.kind === "target"
+          ? { kind: "target", target: entry + cfg.exit.r * risk }
+          : cfg.exit.kind === "trail"
+          ? { kind: "trail", trail: cfg.exit.r * risk }
+          : { kind: "time", days: cfg.exit.days };
+      const out = replayExit("long", stop, bars.slice(j), rule)!;
+      signals.push({ symbol, score, signalTs: bars[i].ts, entryTs: bars[j].ts, entry, stop, exitTs: out.ts, exit: out.price, reason: out.reason });
+      busyUntil = bars.findIndex((b) => b.ts === out.ts) + 1;
+    }
+  });
+
+  // 按入场时间依次定仓位；入场前已平仓的盈亏先计入权益
+  signals.sort((a, b) => a.entryTs - b.entryTs);
+  const trades: BacktestTrade[] = [];
+  let equity = cfg.startEquity;
+  const pending: BacktestTrade[] = [];
+  const settle = (ts: number) => {
+    pending.sort((a, b) => a.exitTs - b.exitTs);
+    while (pending.length && pending[0].exitTs < ts) equity += pending.shift()!.pnl;
+  };
+  for (const s of signals) {
+    settle(s.entryTs);
+    const size = cfg.size(equity, s.entry, s.stop);
+    if (!(size > 0)) continue;
+    const pnl = cfg.pnl(s.entry, s.exit, size);
+    const t = { ...s, size, pnl, r: pnl / ((s.entry - s.stop) * size * m) };
+    trades.push(t);
+    pending.push(t);
+  }
+
+  // 权益曲线按平仓时间累计
+  const closed = [...trades].sort((a, b) => a.exitTs - b.exitTs);
+  let eq = cfg.startEquity;
+  let peak = eq;
+  let maxDD = 0;
+  let maxDDPct = 0;
+  const points = closed.map((t) => {
+    eq += t.pnl;
+    peak = Math.max(peak, eq);
+    maxDD = Math.max(maxDD, peak - eq);
+    if (peak > 0) maxDDPct = Math.max(maxDDPct, (peak - eq) / peak);
+    return { ts: t.exitTs, equity: eq, peak, dd: peak - eq };
+  });
+
+  return { trades, points, endEquity: eq, maxDD, maxDDPct };
+}
@@ -0,0 +1,130 @@
+// 历史日线（OHLC）：CSV 解析、按日合并，以及基于日线的 MAE/MFE 与替代离场回放
+// 日线看不到日内先后顺序：同一根 K 线同时触及止损与目标时按先止损处理（保守）
+
+export type Bar = { ts: number; o: number; h: number; l: number; c: number; v?: number };
+
+export type BarSide = "long" | "short";
+
+// 表头别名（小写比较）
+const COLS: Record<"date" | "open" | "high" | "low" | "close" | "volume" | "symbol", string[]> = {
+  date: ["日期", "交易日期", "时间", "date", "trade_date", "datetime", "time"],
+  open: ["开盘", "开盘价", "今开", "open"],
+  high: ["最高", "最高价", "high"],
+  low: ["最低", "最低价", "low"],
+  close: ["收盘", "收盘价", "close", "adj close"],
+  volume: ["成交量", "volume", "vol"],
+  symbol: ["代码", "股票代码", "证券代码", "symbol", "code", "ts_code", "ticker"],
+};
+
+export function dayStart(ts: number) {
+  const d = new Date(ts);
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate()).getTime();
+}
+
+// 支持 2024-01-02 / 2024/1/2 / 20240102，时间部分忽略
+function parseDay(s: string) {
+  const m = s.trim().match(/^(\d{4})[-/.]?(\d{1,2})[-/.]?(\d{1,2})/);
+  if (!m) return NaN;
+  const d = new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]));
+  return d.getMonth() === Number(m[2]) - 1 ? d.getTime() : NaN;
+}
+
+export function normSymbol(s: string) {
+  return s.trim().toUpperCase();
+}
+
+// 没有代码列时全部记到 symbol 名下；无法解析或高低价矛盾的行计入 skipped
+export function parseBars(rows: string[][], symbol = ""): { bySymbol: Record<string, Bar[]>; skipped: number } {
+  const [head, ...body] = rows;
+  if (!head) throw new Error("文件为空");
+  const h = head.map((x) => x.trim().toLowerCase());
+  const col = (k: keyof typeof COLS) => h.findIndex((x) => COLS[k].includes(x));
+  const idx = { date: col("date"), open: col("open"), high: col("high"), low: col("low"), close: col("close"), volume: col("volume"), symbol: col("symbol") };
+  if ([idx.date, idx.open, idx.high, idx.low, idx.close].some((i) => i < 0)) throw new Error("找不到 日期/开盘/最高/最低/收盘 列");
+  if (idx.symbol < 0 && !normSymbol(symbol)) throw new Error("文件里没有代码列，请先填写代码");
+
+  const bySymbol: Record<string, Bar[]> = {};
+  let skipped = 0;
+  for (const r of body) {
+    const num = (i: number) => Number(String(r[i] ?? "").replace(/,/g, ""));
+    const bar: Bar = { ts: parseDay(r[idx.date] || ""), o: num(idx.open), h: num(idx.high), l: num(idx.low), c: num(idx.close) };
+    // 成交量单元格为空时不记 v（Number("") 是 0，会被当成零成交量）
+    if (idx.volume >= 0 && String(r[idx.volume] ?? "").trim() && Number.isFinite(num(idx.volume))) bar.v = num(idx.volume);
+    const sym = normSymbol(idx.symbol >= 0 ? r[idx.symbol] || "" : symbol);
+    const ok =
+      sym &&
+      Number.isFinite(bar.ts) &&
+      [bar.o, bar.h, bar.l, bar.c].every((x) => Number.isFinite(x) && x > 0) &&
+      bar.h >= Math.max(bar.o, bar.c, bar.l) &&
+      bar.l <= Math.min(bar.o, bar.c);
+    if (!ok) {
+      skipped++;
+      continue;
+    }
+    (bySymbol[sym] = bySymbol[sym] || []).push(bar);
+  }
+  Object.keys(bySymbol).forEach((k) => (bySymbol[k] = mergeBars([], bySymbol[k])));
+  return { bySymbol, skipped };
+}
+
+// 按日期合并，同一天以新数据为准
+export function mergeBars(old: Bar[], add: Bar[]): Bar[] {
+  const m = new Map<number, Bar>();
+  old.forEach((b) => m.set(b.ts, b));
+  add.forEach((b) => m.set(b.ts, b));
+  return Array.from(m.values()).sort((a, b) => a.ts - b.ts);
+}
+
+export function barsBetween(bars: Bar[], from: number, to: number) {
+  const a = dayStart(from);
+  const b = dayStart(to);
+  return bars.filter((x) => x.ts >= a && x.ts <= b);
+}
+
+// 持仓期间最大不利/有利波动（R，均为非负）；risk 为每股风险（价格单位）
+export function excursion(side: BarSide, entry: number, risk: number, bars: Bar[]) {
+  if (!(risk > 0) || !bars.length) return null;
+  const adverse = Math.max(0, ...bars.map((b) => (side === "long" ? entry - b.l : b.h - entry)));
+  const favorable = Math.max(0, ...bars.map((b) => (side === "long" ? b.h - entry : entry - b.l)));
+  return { mae: adverse / risk, mfe: favorable / risk };
+}
+
+export type ExitRule =
+  | { kind: "target"; target: number } // 持有到目标
+  | { kind: "trail"; trail: number }   // 跟踪止损：最高价回撤 trail（价格单位）
+  | { kind: "time"; days: number };    // 时间止损：第 N 根 K 线收盘离场
+
+export type ReplayExit = { price: number; ts: number; reason: "stop" | "target" | "trail" | "time" | "end" };
+
+// 从入场后的第一根 K 线开始模拟；初始止损始终有效，跳空越过止损/目标时按开盘价成交
+// 数据用完仍未离场的按最后收盘价计（reason = end）
+export function replayExit(side: BarSide, stop: number, bars: Bar[], rule: ExitRule): ReplayExit | null {
+  if (!bars.length) return null;
+  const dir = side === "long" ? 1 : -1;
+  // 统一换成“做多”视角：价格乘以方向，空头的高低点互换
+  const v = (p: number) => dir * p;
+  let level = v(stop);
+  let best = -Infinity;
+
+  for (let i = 0; i < bars.length; i++) {
+    const b = bars[i];
+    const o = v(b.o);
+    const hi = dir === 1 ? b.h : -b.l;
+    const lo = dir === 1 ? b.l : -b.h;
+    const stopReason = level > v(stop) ? "trail" : "stop";
+
+    if (o <= level) return { price: dir * o, ts: b.ts, reason: stopReason };
+    if (rule.kind === "target" && o >= v(rule.target)) return { price: b.o, ts: b.ts, reason: "target" };
+    if (lo <= level) return { price: dir * level, ts: b.ts, reason: stopReason };
+    if (rule.kind === "target" && hi >= v(rule.target)) return { price: rule.target, ts: b.ts, reason: "target" };
+    if (rule.kind === "time" && i + 1 >= rule.days) return { price: b.c, ts: b.ts, reason: "time" };
+
+    // 本根 K 线结束后才上移跟踪止损，避免用到当根的未来信息
+    if (rule.kind === "trail") {
+      best = Math.max(best, hi);
+      level = Math.max(level, best - rule.trail);
+    }
+  }
+  const last = bars[bars.length - 1];
+  return { price: last.c, ts: last.ts, reason: "end" };
+}
@@ -0,0 +1,158 @@
+// 券商成交单（交割单）导入：列映射、预设与成交指纹
+
+export type BrokerField = "symbol" | "name" | "side" | "price" | "qty" | "fee" | "tax" | "other" | "date" | "time" | "tradeNo";
+
+export type ColumnMap = Partial<Record<BrokerField, string>>; // 字段 -> CSV 表头
+
+export type MappingPreset = {
+  id: string;
+  name: string;
+  map: ColumnMap;
+  buyWords: string[];    // 买卖标志列里表示“买入”的文字
+  sellWords: string[];
+  builtin?: boolean;
+};
+
+export type BrokerFill = {
+  row: number;           // CSV 行号（从 1 开始，含表头）
+  symbol: string;
+  name?: string;
+  side: "buy" | "sell";
+  price: number;
+  qty: number;
+  fee: number;           // 佣金/手续费 + 印花税 + 其他费用
+  ts: number;
+  fp: string;            // 成交指纹，用于重复导入去重
+};
+
+export const BROKER_FIELDS: { k: BrokerField; t: string; required?: boolean }[] = [
+  { k: "symbol", t: "证券代码", required: true },
+  { k: "name", t: "证券名称" },
+  { k: "side", t: "买卖方向", required: true },
+  { k: "price", t: "成交价格", required: true },
+  { k: "qty", t: "成交数量", required: true },
+  { k: "fee", t: "手续费/佣金" },
+  { k: "tax", t: "印花税" },
+  { k: "other", t: "其他费用（过户费等）" },
+  { k: "date", t: "成交日期（或日期时间）", required: true },
+  { k: "time", t: "成交时间" },
+  { k: "tradeNo", t: "成交编号" },
+];
+
+const BUY = ["买入", "证券买入", "买", "B", "Buy", "BUY"];
+const SELL = ["卖出", "证券卖出", "卖", "S", "Sell", "SELL"];
+
+export const BUILTIN_PRESETS: MappingPreset[] = [
+  {
+    id: "ths",
+    name: "同花顺/通达信（交割单）",
+    map: { symbol: "证券代码", name: "证券名称", side: "操作", price: "成交均价", qty: "成交数量", fee: "手续费", tax: "印花税", other: "过户费", date: "成交日期", time: "成交时间", tradeNo: "成交编号" },
+    buyWords: BUY,
+    sellWords: SELL,
+    builtin: true,
+  },
+  {
+    id: "eastmoney",
+    name: "东方财富（历史成交）",
+    map: { symbol: "证券代码", name: "证券名称", side: "买卖标志", price: "成交价格", qty: "成交数量", fee: "佣金", tax: "印花税", other: "其他费用", date: "成交日期", time: "成交时间", tradeNo: "成交编号" },
+    buyWords: BUY,
+    sellWords: SELL,
+    builtin: true,
+  },
+  {
+    id: "huatai",
+    name: "华泰（对账单）",
+    map: { symbol: "证券代码", name: "证券名称", side: "业务名称", price: "成交价格", qty: "成交数量", fee: "手续费", tax: "印花税", other: "过户费", date: "发生日期", time: "成交时间", tradeNo: "合同编号" },
+    buyWords: BUY,
+    sellWords: SELL,
+    builtin: true,
+  },
+];
+
+// 表头包含预设的全部必填列即视为匹配
+export function detectPreset(header: string[], presets: MappingPreset[]) {
+  return presets.find((p) =>
+    BROKER_FIELDS.filter((f) => f.required).every((f) => p.map[f.k] && header.includes(p.map[f.k]!))
+  );
+}
+
+// 支持 2024-03-05 / 2024/3/5 / 20240305，时间 09:31:02 / 093102；日期列里也可直接带时间
+export function parseDateTime(date: string, time = "") {
+  const d = String(date || "").trim();
+  const m = d.match(/^(\d{4})[-/.]?(\d{1,2})[-/.]?(\d{1,2})(?:[ T](\d{1,2}):?(\d{2}):?(\d{2})?)?/);
+  if (!m) return NaN;
+  // 时间列：09:30:15 / 9:30 / 093015 / 93015；只有时分的在右边补秒
+  const raw = String(time || "").trim();
+  const t = !raw
+    ? ""
+    : raw.includes(":")
+    ? raw.split(":").map((x) => x.trim().padStart(2, "0")).concat("00", "00").slice(0, 3).join("")
+    : raw.length <= 4
+    ? raw.padStart(4, "0") + "00"
+    : raw.padStart(6, "0");
+  const hh = m[4] !== undefined ? Number(m[4]) : t ? Number(t.slice(0, 2)) : 0;
+  const mm = m[5] !== undefined ? Number(m[5]) : t ? Number(t.slice(2, 4)) : 0;
+  const ss = m[6] !== undefined ? Number(m[6]) : t ? Number(t.slice(4, 6)) : 0;
+  return new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3]), hh || 0, mm || 0, ss || 0).getTime();
+}
+
+// FNV-1a 32 位，够用于本地去重
+function hash(s: string) {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < s.length; i++) {
+    h ^= s.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return (h >>> 0).toString(16).padStart(8, "0");
+}
+
+function num(x: string | undefined) {
+  const v = Number(String(x ?? "").replace(/[,¥￥\s]/g, ""));
+  return Number.isFinite(v) ? v : 0;
+}
+
+export function mapBrokerRows(rows: string[][], preset: Pick<MappingPreset, "map" | "buyWords" | "sellWords">) {
+  const [header, ...body] = rows;
+  const col = (k: BrokerField) => (preset.map[k] ? header.indexOf(preset.map[k]!) : -1);
+  const get = (r: string[], k: BrokerField) => (col(k) >= 0 ? r[col(k)] : undefined);
+
+  const missing = BROKER_FIELDS.filter((f) => f.required && col(f.k) < 0).map((f) => f.t);
+  if (missing.length) return { fills: [] as BrokerFill[], errors: [`缺少必填列：${missing.join("、")}`] };
+
+  const fills: BrokerFill[] = [];
+  const errors: string[] = [];
+  const seen = new Map<string, number>();
+
+  body.forEach((r, i) => {
+    const row = i + 2;
+    const sideText = String(get(r, "side") || "").trim();
+    const side = preset.buyWords.some((w) => sideText.includes(w))
+      ? "buy"
+      : preset.sellWords.some((w) => sideText.includes(w))
+        ? "sell"
+        : null;
+    // 非买卖记录（如分红、转账）直接跳过
+    if (!side) return;
+
+    const symbol = String(get(r, "symbol") || "").trim();
+    const price = num(get(r, "price"));
+    const qty = Math.abs(num(get(r, "qty")));
+    const ts = parseDateTime(get(r, "date") || "", get(r, "time"));
+    if (!symbol || !(price > 0) || !(qty > 0) || !Number.isFinite(ts)) {
+      errors.push(`第 ${row} 行数据不完整，已跳过`);
+      return;
+    }
+
+    const fee = Math.abs(num(get(r, "fee"))) + Math.abs(num(get(r, "tax"))) + Math.abs(num(get(r, "other")));
+    const tradeNo = String(get(r, "tradeNo") || "").trim();
+
+    // 同一单里完全相同的成交按出现次序区分，重复导入时次序不变
+    const key = `${symbol}|${side}|${price}|${qty}|${ts}|${tradeNo}`;
+    const n = (seen.get(key) || 0) + 1;
+    seen.set(key, n);
+
+    fills.push({ row, symbol, name: get(r, "name")?.trim() || undefined, side, price, qty, fee, ts, fp: hash(`${key}#${n}`) });
+  });
+
+  return { fills: fills.sort((a, b) => a.ts - b.ts), errors };
+}
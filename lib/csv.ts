@@ -0,0 +1,75 @@
+// 轻量 CSV 解析：支持引号转义、CRLF、UTF-8 BOM，自动识别逗号/制表符分隔
+
+export function parseCSV(text: string): string[][] {
+  const src = text.replace(/^\uFEFF/, "");
+  const firstLine = src.slice(0, src.indexOf("\n") === -1 ? src.length : src.indexOf("\n"));
+  const delim = (firstLine.match(/\t/g) || []).length > (firstLine.match(/,/g) || []).length ? "\t" : ",";
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    if (quoted) {
+      if (c === '"' && src[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (c === '"') {
+        quoted = false;
+      } else {
+        cell += c;
+      }
+      continue;
+    }
+    if (c === '"' && cell === "") {
+      quoted = true;
+    } else if (c === delim) {
+      row.push(cell);
+      cell = "";
+    } else if (c === "\n" || c === "\r") {
+      if (c === "\r" && src[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += c;
+    }
+  }
+  if (cell !== "" || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+
+  // 去掉空行；部分券商导出的单元格带 ="600089" 形式，顺手剥掉
+  return rows
+    .map((r) => r.map((x) => x.trim().replace(/^="?(.*?)"?$/, "$1")))
+    .filter((r) => r.some((x) => x !== ""));
+}
+
+export function readFileText(file: File, encoding = "utf-8"): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const r = new FileReader();
+    r.onload = () => resolve(String(r.result || ""));
+    r.onerror = () => reject(r.error);
+    r.readAsText(file, encoding);
+  });
+}
+
+export type CSVCell = string | number | null | undefined;
+
+// 写出 CSV：带 UTF-8 BOM，Excel 直接双击打开中文不乱码
+// 以 0 开头的纯数字（如 000001）写成 ="000001" 保留前导零；= + - @ 开头的文本加 ' 防止被当成公式
+export function toCSV(rows: CSVCell[][]): string {
+  const cell = (v: CSVCell) => {
+    if (v === null || v === undefined) return "";
+    if (typeof v === "number") return Number.isFinite(v) ? String(v) : "";
+    let s = v;
+    if (/^0\d+$/.test(s)) s = `="${s}"`;
+    else if (/^[=+\-@]/.test(s) && !Number.isFinite(Number(s))) s = `'${s}`;
+    return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+  };
+  return "\uFEFF" + rows.map((r) => r.map(cell).join(",")).join("\r\n") + "\r\n";
+}
@@ -0,0 +1,66 @@
+// IndexedDB 存储：交易逐条存放，附带变更日志与回收站；附件文件与历史日线单独存放；其余状态按 key 存 kv
+
+export const DB_NAME = "trading_ops_console";
+const DB_VERSION = 3;
+
+export type StoreName = "kv" | "trades" | "changes" | "trash" | "files" | "bars";
+
+function req<T>(r: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    r.onsuccess = () => resolve(r.result);
+    r.onerror = () => reject(r.error);
+  });
+}
+
+export function openDB(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === "undefined") return reject(new Error("当前浏览器不支持 IndexedDB"));
+    const r = indexedDB.open(DB_NAME, DB_VERSION);
+    r.onupgradeneeded = () => {
+      const db = r.result;
+      if (!db.objectStoreNames.contains("kv")) db.createObjectStore("kv");
+      if (!db.objectStoreNames.contains("trades")) db.createObjectStore("trades", { keyPath: "id" });
+      if (!db.objectStoreNames.contains("trash")) db.createObjectStore("trash", { keyPath: "id" });
+      if (!db.objectStoreNames.contains("changes")) {
+        const s = db.createObjectStore("changes", { keyPath: "seq", autoIncrement: true });
+        s.createIndex("tradeId", "tradeId");
+      }
+      // v2：附件（图片/PDF）按 id 存 Blob，交易里只存元数据
+      if (!db.objectStoreNames.contains("files")) {
+        const s = db.createObjectStore("files", { keyPath: "id" });
+        s.createIndex("tradeId", "tradeId");
+      }
+      // v3：历史日线，每个代码一条 { symbol, bars }
+      if (!db.objectStoreNames.contains("bars")) db.createObjectStore("bars", { keyPath: "symbol" });
+    };
+    r.onsuccess = () => resolve(r.result);
+    r.onerror = () => reject(r.error);
+  });
+}
+
+export function idbGet<T>(db: IDBDatabase, store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+  return req(db.transaction(store).objectStore(store).get(key));
+}
+
+export function idbGetAll<T>(db: IDBDatabase, store: StoreName): Promise<T[]> {
+  return req(db.transaction(store).objectStore(store).getAll());
+}
+
+export function idbKeys(db: IDBDatabase, store: StoreName): Promise<IDBValidKey[]> {
+  return req(db.transaction(store).objectStore(store).getAllKeys());
+}
+
+export function idbByIndex<T>(db: IDBDatabase, store: StoreName, index: string, key: IDBValidKey): Promise<T[]> {
+  return req(db.transaction(store).objectStore(store).index(index).getAll(key));
+}
+
+// 在一个读写事务里执行多步写入，全部成功才算完成
+export function idbWrite(db: IDBDatabase, stores: StoreName[], fn: (tx: IDBTransaction) => void): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, "readwrite");
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+    fn(tx);
+  });
+}
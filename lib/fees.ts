@@ -0,0 +1,82 @@
+// 费用方案：按市场规则逐项计算每笔成交的费用（最低/最高收费、单边收费、固定收费）
+
+export type FeeSide = "buy" | "sell" | "both";
+
+export type FeeComponent = {
+  name: string;
+  side: FeeSide;     // 哪一侧收取：印花税等只在卖出侧
+  rate?: number;     // 按成交额 %
+  perShare?: number; // 按数量（股/张）收取
+  fixed?: number;    // 每笔固定
+  min?: number;      // 每笔最低
+  max?: number;      // 每笔最高（金额）
+  maxPct?: number;   // 每笔最高（占成交额 %）
+};
+
+export type FeeSchedule = {
+  id: string;
+  name: string;
+  components: FeeComponent[];
+  builtin?: boolean;
+};
+
+// 费率为常见量级，佣金请按自己的券商协议修改
+export const FEE_PRESETS: FeeSchedule[] = [
+  {
+    id: "cn_a",
+    name: "A股",
+    builtin: true,
+    components: [
+      { name: "佣金", side: "both", rate: 0.025, min: 5 },
+      { name: "印花税", side: "sell", rate: 0.05 },
+      { name: "过户费", side: "both", rate: 0.001 },
+    ],
+  },
+  {
+    id: "hk",
+    name: "港股",
+    builtin: true,
+    components: [
+      { name: "佣金", side: "both", rate: 0.03, min: 3 },
+      { name: "平台费", side: "both", fixed: 15 },
+      { name: "印花税", side: "both", rate: 0.1 },
+      { name: "交易征费", side: "both", rate: 0.0027 },
+      { name: "会财局征费", side: "both", rate: 0.00015 },
+      { name: "交易费", side: "both", rate: 0.00565 },
+      { name: "交收费", side: "both", rate: 0.002, min: 2, max: 100 },
+    ],
+  },
+  {
+    id: "us",
+    name: "美股",
+    builtin: true,
+    components: [
+      { name: "佣金", side: "both", perShare: 0.005, min: 1, maxPct: 1 },
+      { name: "SEC 费", side: "sell", rate: 0.00278 },
+      { name: "FINRA TAF", side: "sell", perShare: 0.000166, max: 8.3 },
+    ],
+  },
+];
+
+export function findSchedule(list: FeeSchedule[], id: string) {
+  return list.find((s) => s.id === id);
+}
+
+export function calcFee(schedule: FeeSchedule, side: "buy" | "sell", price: number, qty: number) {
+  if (!qty || !price) return { total: 0, parts: [] as { name: string; amount: number }[] };
+  const notional = Math.abs(price * qty);
+  const parts = schedule.components
+    .filter((c) => c.side === "both" || c.side === side)
+    .map((c) => {
+      let amount = notional * ((c.rate || 0) / 100) + Math.abs(qty) * (c.perShare || 0) + (c.fixed || 0);
+      if (c.min && amount < c.min) amount = c.min;
+      if (c.max && amount > c.max) amount = c.max;
+      if (c.maxPct && amount > notional * (c.maxPct / 100)) amount = notional * (c.maxPct / 100);
+      return { name: c.name, amount };
+    });
+  return { total: parts.reduce((s, p) => s + p.amount, 0), parts };
+}
+
+export function newComponent(): FeeComponent {
+  return { name: "", side: "both", rate: 0 };
+}
@@ -0,0 +1,75 @@
+// 行情源：统一的报价接口，手动录入与本地 HTTP/JSON 端点两种实现
+
+export type Quote = {
+  symbol: string;
+  price: number;
+  ts: number;        // 报价时间（毫秒）
+  source: string;    // 行情源 id
+};
+
+export type QuoteProvider = {
+  id: string;
+  name: string;
+  fetchQuotes: (symbols: string[]) => Promise<Quote[]>;
+};
+
+export function isStale(q: Quote | undefined, maxAgeMin: number, now = Date.now()) {
+  if (!q) return true;
+  if (!(maxAgeMin > 0)) return false;
+  return now - q.ts > maxAgeMin * 60000;
+}
+
+// 手动录入：价格由界面写入 store，fetch 时原样返回
+export function createManualProvider(store: Record<string, Quote>): QuoteProvider {
+  return {
+    id: "manual",
+    name: "手动录入",
+    fetchQuotes: async (symbols) => symbols.map((s) => store[s]).filter(Boolean),
+  };
+}
+
+export function manualQuote(symbol: string, price: number, ts = Date.now()): Quote {
+  return { symbol, price, ts, source: "manual" };
+}
+
+// 本地 HTTP/JSON：GET {url}?symbols=600089,000001
+// 支持三种返回格式：
+//   [{ "symbol": "600089", "price": 12.3, "ts": 1700000000000 }]
+//   { "quotes": [ ...同上 ] }
+//   { "600089": 12.3, "000001": 10.5 }
+export function createHttpProvider(url: string, timeoutMs = 5000): QuoteProvider {
+  return {
+    id: "http",
+    name: "本地 HTTP/JSON",
+    fetchQuotes: async (symbols) => {
+      if (!symbols.length) return [];
+      const ctl = new AbortController();
+      const timer = setTimeout(() => ctl.abort(), timeoutMs);
+      try {
+        const sep = url.includes("?") ? "&" : "?";
+        const res = await fetch(`${url}${sep}symbols=${encodeURIComponent(symbols.join(","))}`, { signal: ctl.signal });
+        if (!res.ok) throw new Error(`行情接口返回 ${res.status}`);
+        return parseQuotes(await res.json(), Date.now()).filter((q) => symbols.includes(q.symbol));
+      } finally {
+        clearTimeout(timer);
+      }
+    },
+  };
+}
+
+export function parseQuotes(data: any, now: number): Quote[] {
+  const list: any[] = Array.isArray(data)
+    ? data
+    : Array.isArray(data?.quotes)
+      ? data.quotes
+      : Object.entries(data || {}).map(([symbol, price]) => ({ symbol, price }));
+
+  return list
+    .map((x) => ({
+      symbol: String(x?.symbol ?? "").trim(),
+      price: Number(x?.price),
+      ts: Number.isFinite(Number(x?.ts)) && Number(x?.ts) > 0 ? Number(x.ts) : now,
+      source: "http",
+    }))
+    .filter((q) => q.symbol && Number.isFinite(q.price) && q.price > 0);
+}
@@ -1,11 +1,50 @@
 import React, { useEffect, useMemo, useRef, useState } from "react";
+import { Quote, createHttpProvider, createManualProvider, isStale, manualQuote } from "../lib/quotes";
+import { CSVCell, parseCSV, readFileText, toCSV } from "../lib/csv";
+import { FEE_PRESETS, FeeComponent, FeeSchedule, calcFee, findSchedule, newComponent } from "../lib/fees";
+import { idbByIndex, idbGet, idbGetAll, idbKeys, idbWrite, openDB } from "../lib/db";
+import { ZipEntry, makeZip, readZip } from "../lib/zip";
+import { AUTO_ITEMS, ExitSpec, autoItem, hasVolume, runBacktest } from "../lib/backtest";
+import { Bar, ReplayExit, barsBetween, dayStart, excursion, mergeBars, normSymbol, parseBars, replayExit } from "../lib/bars";
+import { BROKER_FIELDS, BUILTIN_PRESETS, BrokerField, BrokerFill, MappingPreset, detectPreset, mapBrokerRows } from "../lib/broker";
 
-type ModelType = "trend" | "rebound";
-type Status = "open" | "closed";
+type ModelType = string; // 评分模型 id（内置 trend / rebound）
+// 生命周期：观察 → 计划 → 持仓（已触发）→ 平仓；计划也可能被取消或过期
+type Status = "watch" | "planned" | "open" | "closed" | "cancelled" | "expired";
 type Side = "long" | "short";
+type FillKind = "entry" | "exit";
+
+type Fill = {
+  id: string;
+  kind: FillKind;        // entry=开仓/加仓，exit=减仓/平仓
+  price: number;
+  qty: number;
+  ts: number;
+  fee: number;           // 本笔成交费用合计（手续费+平仓额外费+滑点，金额）
+  fp?: string;           // 券商成交指纹（CSV 导入时写入，用于去重）
+  planned?: boolean;     // 保存计划时按计划价自动生成，尚未核对为实际成交价
+};
+
+type StopMode = "manual" | "breakeven" | "trail_pct" | "trail_atr";
+
+type StopChange = {
+  ts: number;
+  price: number;         // 调整后的止损价
+  from: number;          // 调整前的止损价
+  mode: StopMode;
+  note?: string;         // 计算依据（参考价、ATR 等）
+};
 
 type Trade = {
   side: Side;
+  account: string;       // 所属账户 id
+  currency: string;      // 账户币种快照，金额字段（pnl 等）均以此计价
+  multiplier?: number;   // 合约乘数快照（股票为 1）
+  instrument?: Instrument; // 品种类型，缺省为股票
+  tickSize?: number;     // 最小变动价位
+  contractFee?: number;  // 每张固定佣金（每次成交按张数收取）
+  marginPct?: number;    // 保证金比例%，缺省 100（全额）
+  fees?: FeeSchedule;    // 费用方案快照；没有时按 feePct/exitFeePct 简单费率
   
   feePct: number;        // 双边手续费（%）
   exitFeePct: number;    // 平仓额外费用（%）例如A股印花税
@@ -20,32 +59,216 @@ type Trade = {
   industry?: string;
 
   model: ModelType;
+  modelSnapshot: ScoreModel; // 打分时的模型版本快照，模型后续修改不影响历史得分
   timeframe: "mid" | "swing";
 
   entry: number;
-  stop: number;
+  stop: number;          // 初始止损（R 的风险基准，不随移动止损改变）
+  stopHistory?: StopChange[]; // 止损调整记录，最后一条为当前止损
   target?: number;
+  trigger?: number;      // 计划触发价，缺省为入场价
+  expiresAt?: number;    // 计划到期时间，过期未触发自动转为已过期
+  planQty?: number;      // 保存计划时的建议数量
+  cancelReason?: string; // 取消计划的理由
+  shadow?: { exit: number; ts: number; auto?: boolean }; // 取消/过期计划的假设出场，用于评估放弃的机会
+  shadowFrom?: number;   // 取消/过期后看到的第一笔报价，用来判断之后是否穿越触发价
+  triggeredAt?: number;  // 取消/过期后行情到达触发价的时间；未到达的计划不会成交，不计假设结果
 
   equity: number;        // 账户权益（用于复盘）
   maxRiskPct: number;    // 单笔最大风险%
   lotSize: number;       // 手数/最小单位
 
-  size: number;          // 数量（股/张）
+  size: number;          // 累计开仓数量（股/张），由 fills 推导
   positionPct: number;   // 仓位%（占权益）
+  riskOverride?: string; // 突破组合风控限制时填写的理由
 
   score: number;
   checklist: Record<string, boolean>;
   tags: string[];
 
   status: Status;
-  exit?: number;
-  pnl?: number;
-  r?: number;
+  fills: Fill[];         // 成交明细（开/加仓、减/平仓）
+  exit?: number;         // 平均平仓价，由 fills 推导
+  pnl?: number;          // 已实现盈亏，由 fills 推导
+  r?: number;            // 已实现R，由 fills 推导
 
   notes?: string;
+  review?: TradeReview;  // 平仓后的复盘
+  journal?: JournalEntry[]; // 交易日志（按时间追加）
+  attachments?: Attachment[]; // 附件元数据，文件本体存在 IndexedDB 的 files 库
+  edits?: TradeEdit[];   // 手动编辑/重新打开的修改记录
+};
+
+type TradeEdit = { ts: number; changes: { field: string; from: any; to: any }[] };
+
+type Account = {
+  id: string;
+  name: string;
+  currency: string;   // 如 CNY / HKD / USD
+  equity: number;
+  lotSize: number;
+  feePct: number;
+  exitFeePct: number;
+  slippage: number;
+  multiplier: number; // 合约乘数：股票 1，期货按合约规格
+  sizing?: SizingBasis; // 仓位计算用的权益口径
+  feeSchedule?: string; // 费用方案 id，空 = 简单费率
+};
+
+type SizingBasis = "ledger" | "peak" | "fixed";
+
+type Instrument = "stock" | "future" | "option";
+
+const INSTRUMENT_LABEL: Record<Instrument, string> = {
+  stock: "股票",
+  future: "期货",
+  option: "期权",
+};
+
+// 切换品种时带出的常用默认值，具体合约以交易所规格为准
+const INSTRUMENT_DEFAULTS: Record<Instrument, { multiplier: number; tickSize: number; contractFee: number; marginPct: number }> = {
+  stock: { multiplier: 1, tickSize: 0.01, contractFee: 0, marginPct: 100 },
+  future: { multiplier: 10, tickSize: 1, contractFee: 3, marginPct: 12 },
+  option: { multiplier: 10000, tickSize: 0.0001, contractFee: 2, marginPct: 100 },
+};
+
+const SIZING_LABEL: Record<SizingBasis, string> = {
+  ledger: "当前账本权益",
+  peak: "历史最高权益",
+  fixed: "固定期初资金",
+};
+
+type CashKind = "deposit" | "withdraw" | "dividend";
+
+type CashFlow = {
+  id: string;
+  account: string;
+  ts: number;
+  kind: CashKind;
+  amount: number; // 正数；出金在计算时取负
+  note?: string;
+};
+
+const CASH_LABEL: Record<CashKind, string> = {
+  deposit: "入金",
+  withdraw: "出金",
+  dividend: "分红/利息",
+};
+
+type ModelItem = {
+  k: string;
+  t: string;
+  w: number;
+  mandatory?: boolean;   // 必选项：未勾选时结论直接为 ❌
+};
+
+type ScoreModel = {
+  id: string;
+  name: string;
+  version: number;
+  items: ModelItem[];
+  verdicts: { min: number; label: string }[]; // 按 min 从高到低匹配
+  fallback: string;                           // 低于所有档位时的结论
+  updatedAt: number;
+};
+
+type AlertKind = "stop_hit" | "target_hit" | "near_stop" | "near_target";
+
+type AlertRecord = {
+  id: string;
+  tradeId: string;
+  symbol: string;
+  kind: AlertKind;
+  price: number;         // 触发时的标记价
+  level: number;         // 对应的止损/目标价
+  ts: number;
+  ackAt?: number;        // 点“知道了”的时间
+};
+
+const ALERT_LABEL: Record<AlertKind, string> = {
+  stop_hit: "触及止损",
+  target_hit: "触及目标",
+  near_stop: "接近止损",
+  near_target: "接近目标",
+};
+
+type ExitReason = "stop" | "target" | "discretionary" | "time";
+
+const EXIT_REASON_LABEL: Record<ExitReason, string> = {
+  stop: "止损",
+  target: "目标",
+  discretionary: "主动离场",
+  time: "时间止损",
+};
+
+// 情绪评分 1–5：越高越冷静
+const EMOTION_LABEL = ["", "失控", "焦虑", "一般", "平稳", "冷静"];
+
+type MistakeType = { id: string; label: string };
+
+const DEFAULT_MISTAKES: MistakeType[] = [
+  { id: "chase", label: "追价入场" },
+  { id: "moved_stop", label: "放宽止损" },
+  { id: "early_exit", label: "过早离场" },
+  { id: "late_stop", label: "止损拖延" },
+  { id: "oversize", label: "仓位过大" },
+  { id: "no_plan", label: "计划外交易" },
+  { id: "revenge", label: "报复性交易" },
+];
+
+type TradeReview = {
+  ts: number;
+  followedPlan: boolean;
+  exitReason: ExitReason;
+  emotion: number;       // 1–5
+  mistakes: string[];    // MistakeType.id
+  lesson?: string;
+};
+
+type JournalEntry = { ts: number; text: string };
+
+type Attachment = {
+  id: string;
+  name: string;
+  type: string;          // MIME
+  size: number;
+  ts: number;
+  stage: "plan" | "close"; // 计划时 / 平仓复盘时添加
+};
+
+const MAX_ATTACH_MB = 20;
+
+function isAttachable(f: File) {
+  return f.type.startsWith("image/") || f.type === "application/pdf";
+}
+
+// 附件在导出 ZIP 里的路径：attachments/<id>/<文件名>
+function attachPath(a: Attachment) {
+  return `attachments/${a.id}/${a.name}`;
+}
+
+const STATUS_LABEL: Record<Status, string> = {
+  watch: "观察",
+  planned: "计划",
+  open: "持仓中",
+  closed: "已平仓",
+  cancelled: "已取消",
+  expired: "已过期",
+};
+
+// 尚未成交的状态：没有开仓成交时 applyLedger 保留原状态
+const PRE_TRADE: Status[] = ["watch", "planned", "cancelled", "expired"];
+
+const STOP_MODE_LABEL: Record<StopMode, string> = {
+  manual: "手动",
+  breakeven: "保本",
+  trail_pct: "固定%跟踪",
+  trail_atr: "ATR跟踪",
 };
 
 const LS_KEY = "trading_ops_console_v2";
+const BACKUP_KEY = "trading_ops_console_backups";
+const SCHEMA_VERSION = 5;
 
 const TREND = [
   { k: "maBull", t: "均线多头（5>10>20）", w: 20 },
@@ -74,28 +297,80 @@ function fmt(n: any, d = 2) {
   if (!Number.isFinite(x)) return "-";
   return x.toFixed(d);
 }
-function makeChecklist(model: ModelType) {
-  const items = model === "trend" ? TREND : REBOUND;
+const DEFAULT_MODELS: ScoreModel[] = [
+  {
+    id: "trend",
+    name: "趋势模型A",
+    version: 1,
+    items: TREND,
+    verdicts: [
+      { min: 80, label: "✅ 可建仓" },
+      { min: 70, label: "⚠️ 轻仓试错" },
+    ],
+    fallback: "❌ 放弃",
+    updatedAt: 0,
+  },
+  {
+    id: "rebound",
+    name: "反弹模型B",
+    version: 1,
+    items: REBOUND,
+    verdicts: [
+      { min: 75, label: "✅ 可试仓（反弹）" },
+      { min: 65, label: "⚠️ 观察（等信号）" },
+    ],
+    fallback: "❌ 放弃",
+    updatedAt: 0,
+  },
+];
+
+function findModel(models: ScoreModel[], id: ModelType) {
+  return models.find((m) => m.id === id) || DEFAULT_MODELS.find((m) => m.id === id) || models[0] || DEFAULT_MODELS[0];
+}
+// 已保存的交易按快照评判，没有快照时退回当前模型
+function tradeModel(t: Trade, models: ScoreModel[]) {
+  return t.modelSnapshot || findModel(models, t.model);
+}
+const DEFAULT_ACCOUNT: Account = {
+  id: "default",
+  name: "A股账户",
+  currency: "CNY",
+  equity: 100000,
+  lotSize: 100,
+  feePct: 0.03,      // 双边手续费 0.03%
+  exitFeePct: 0.10,  // 平仓额外费用 0.10%（A股印花税常见量级）
+  slippage: 0.01,    // 滑点 0.01 元/股
+  multiplier: 1,
+};
+
+function findAccount(accounts: Account[], id: string) {
+  return accounts.find((a) => a.id === id) || accounts[0] || DEFAULT_ACCOUNT;
+}
+
+function mult(t: { multiplier?: number }) {
+  return t.multiplier || 1;
+}
+
+// 汇率：1 单位外币折合多少基准币；未设置的按 1 处理（界面会提示）
+function fxRate(fx: Record<string, number>, currency: string, base: string) {
+  if (!currency || currency === base) return 1;
+  return fx[currency] > 0 ? fx[currency] : 1;
+}
+
+function makeChecklist(model: ScoreModel) {
   const o: Record<string, boolean> = {};
-  items.forEach((it) => (o[it.k] = false));
+  model.items.forEach((it) => (o[it.k] = false));
   return o;
 }
-function score(model: ModelType, c: Record<string, boolean>) {
-  const items = model === "trend" ? TREND : REBOUND;
-  const total = items.reduce((s, x) => s + x.w, 0);
-  const got = items.reduce((s, x) => s + (c[x.k] ? x.w : 0), 0);
-  return Math.round((got / total) * 100);
+function score(model: ScoreModel, c: Record<string, boolean>) {
+  const total = model.items.reduce((s, x) => s + x.w, 0);
+  const got = model.items.reduce((s, x) => s + (c[x.k] ? x.w : 0), 0);
+  return total > 0 ? Math.round((got / total) * 100) : 0;
 }
-function verdict(model: ModelType, s: number) {
-  if (model === "trend") {
-    if (s >= 80) return "✅ 可建仓";
-    if (s >= 70) return "⚠️ 轻仓试错";
-    return "❌ 放弃";
-  } else {
-    if (s >= 75) return "✅ 可试仓（反弹）";
-    if (s >= 65) return "⚠️ 观察（等信号）";
-    return "❌ 放弃";
-  }
+function verdict(model: ScoreModel, s: number, c?: Record<string, boolean>) {
+  if (c && model.items.some((it) => it.mandatory && !c[it.k])) return "❌ 必选项未满足";
+  const hit = [...model.verdicts].sort((a, b) => b.min - a.min).find((v) => s >= v.min);
+  return hit ? hit.label : model.fallback;
 }
 
 function calcSizing(
@@ -107,15 +382,20 @@ function calcSizing(
   side: Side = "long",
   feePct: number = 0,
   exitFeePct: number = 0,
-  slippage: number = 0
+  slippage: number = 0,
+  multiplier: number = 1,
+  contract: { contractFee?: number; marginPct?: number; availMargin?: number; fees?: FeeSchedule } = {}
 ) {
   // 容错
   const e = Number(entry || 0);
   const s = Number(stop || 0);
   const lot = Math.max(1, Number(lotSize || 1));
+  const m = Math.max(1e-9, Number(multiplier || 1));
   const fee = Number(feePct || 0);
   const exitFee = Number(exitFeePct || 0);
   const slip = Number(slippage || 0);
+  const perContract = Number(contract.contractFee || 0);
+  const marginPct = contract.marginPct ?? 100;
 
   // 价格风险：做多 entry-stop；做空 stop-entry
   const priceRisk = side === "long" ? (e - s) : (s - e);
@@ -124,311 +404,3286 @@ function calcSizing(
   // 手续费双边：entry 和 stop 两侧都算
   // 平仓额外费（印花税）：按 stop 名义（止损卖出）算
   // 滑点：进出各一次
-  const costRisk =
-    e * (fee / 100) +
-    s * (fee / 100) +
-    s * (exitFee / 100) +
-    2 * slip;
-
-  const riskPer = Math.max(0, priceRisk + costRisk);
+  // 每张固定佣金：开平各一次，折算到每个价格单位
+  // 有费用方案时按方案逐项计算；最低佣金使每股成本随数量变化，所以和数量一起迭代求解
+  const openSide = side === "long" ? "buy" : "sell";
+  const closeSide = side === "long" ? "sell" : "buy";
+  const feeCostPer = (q: number) =>
+    contract.fees
+      ? (calcFee(contract.fees, openSide, e, q * m).total + calcFee(contract.fees, closeSide, s, q * m).total) / (q * m)
+      : e * (fee / 100) + s * (fee / 100) + s * (exitFee / 100);
+  const riskAt = (q: number) => Math.max(0, priceRisk + feeCostPer(q) + 2 * slip + (2 * perContract) / m);
 
   const riskMoney = equity * (maxRiskPct / 100);
 
-  // 风险为0时避免除0
-  const rawSize = riskPer > 0 ? Math.floor(riskMoney / riskPer) : 0;
-  const size = Math.floor(rawSize / lot) * lot;
+  // 风险为0时避免除0；期货/期权每张的风险 = 每点风险 × 合约乘数
+  let q = priceRisk > 0 ? Math.max(lot, Math.floor(riskMoney / (priceRisk * m))) : lot;
+  let riskPer = riskAt(q);
+  let riskSize = riskPer > 0 ? Math.floor(riskMoney / (riskPer * m)) : 0;
+  for (let i = 0; contract.fees && i < 8 && riskSize > 0 && riskSize !== q; i++) {
+    q = Math.max(1, riskSize);
+    riskPer = riskAt(q);
+    riskSize = riskPer > 0 ? Math.floor(riskMoney / (riskPer * m)) : 0;
+  }
 
-  const posPct = equity > 0 ? (size * e) / equity * 100 : 0;
+  // 保证金约束：可用保证金 / 每张保证金（股票按 100% 即现金）
+  const marginPer = e * m * (marginPct / 100);
+  const marginSize =
+    contract.availMargin !== undefined && marginPer > 0 ? Math.floor(Math.max(0, contract.availMargin) / marginPer) : Infinity;
 
-  return { riskPer, riskMoney, size, posPct };
-}
+  const rawSize = Math.min(riskSize, marginSize);
+  const size = Math.floor(rawSize / lot) * lot;
 
-function calcCosts(entry: number, exit: number, size: number, feePct: number, exitFeePct: number, slippage: number) {
-  const notionalEntry = entry * size;
-  const notionalExit = exit * size;
+  const posPct = equity > 0 ? (size * e * m) / equity * 100 : 0;
 
-  const fee = (notionalEntry + notionalExit) * (feePct / 100); // 双边手续费
-  const exitFee = notionalExit * (exitFeePct / 100);           // 平仓额外费（如印花税）
-  const slip = Math.abs(slippage) * size * 2;                  // 进出各一次滑点（简单模型）
+  return {
+    riskPer,
+    riskMoney,
+    size,
+    posPct,
+    margin: size * marginPer,
+    leverage: equity > 0 ? (size * e * m) / equity : 0,
+    limitedBy: marginSize < riskSize ? ("margin" as const) : ("risk" as const),
+  };
+}
 
+// 单笔成交的费用估算：手续费按成交额，平仓额外费（如印花税）只算卖出/平仓侧，滑点每次成交算一次
+function calcFillCost(kind: FillKind, price: number, qty: number, feePct: number, exitFeePct: number, slippage: number) {
+  const notional = price * qty;
+  const fee = notional * (feePct / 100);
+  const exitFee = kind === "exit" ? notional * (exitFeePct / 100) : 0;
+  const slip = Math.abs(slippage) * qty;
   return fee + exitFee + slip;
 }
 
-function calcPnL(entry: number, exit: number, size: number, side: Side, feePct: number, exitFeePct: number, slippage: number) {
+function calcCosts(
+  entry: number,
+  exit: number,
+  size: number,
+  feePct: number,
+  exitFeePct: number,
+  slippage: number,
+  multiplier = 1,
+  contractFee = 0,
+  fees?: FeeSchedule,
+  side: Side = "long"
+) {
+  // 一进一出两笔成交
+  const t = { side, feePct, exitFeePct, slippage, multiplier, contractFee, fees };
+  return fillCost(t, "entry", entry, size) + fillCost(t, "exit", exit, size);
+}
+
+function calcPnL(
+  entry: number,
+  exit: number,
+  size: number,
+  side: Side,
+  feePct: number,
+  exitFeePct: number,
+  slippage: number,
+  multiplier = 1,
+  contractFee = 0,
+  fees?: FeeSchedule
+) {
   if (!entry || !exit || !size) return 0;
-  const gross = side === "long" ? (exit - entry) * size : (entry - exit) * size;
-  const costs = calcCosts(entry, exit, size, feePct, exitFeePct, slippage);
+  const gross = (side === "long" ? (exit - entry) * size : (entry - exit) * size) * multiplier;
+  const costs = calcCosts(entry, exit, size, feePct, exitFeePct, slippage, multiplier, contractFee, fees, side);
   return gross - costs;
 }
 
-function calcR(entry: number, stop: number, exit: number, side: Side, feePct: number, exitFeePct: number, slippage: number) {
+function calcR(
+  entry: number,
+  stop: number,
+  exit: number,
+  side: Side,
+  feePct: number,
+  exitFeePct: number,
+  slippage: number,
+  multiplier = 1,
+  contractFee = 0,
+  fees?: FeeSchedule
+) {
   const riskPer =
     side === "long" ? (entry - stop) : (stop - entry); // 做空止损通常在 entry 上方
 
   if (!riskPer || riskPer <= 0) return 0;
 
   // 用“扣除成本后的每股收益”计算更贴近真实
-  const pnl = calcPnL(entry, exit, 1, side, feePct, exitFeePct, slippage); // size=1 的净利润
-  return pnl / riskPer;
+  const pnl = calcPnL(entry, exit, 1, side, feePct, exitFeePct, slippage, multiplier, contractFee, fees); // size=1 的净利润
+  return pnl / (riskPer * multiplier);
 }
 
-export default function TradingConsole() {
-  const [settings, setSettings] = useState(() => ({
-    equity: 100000,
-    maxRiskPct: 1.0,
-    lotSize: 100,
-    
-    feePct: 0.03,      // 默认：双边手续费 0.03%
-    exitFeePct: 0.10,  // 默认：平仓额外费用 0.10%（A股印花税常见量级，可自己改）
-    slippage: 0.01     // 默认：滑点 0.01 元/股（自己改）
-    
-  }));
+type CostSpec = Pick<Trade, "side" | "feePct" | "exitFeePct" | "slippage" | "multiplier" | "contractFee" | "fees">;
 
-  const [trades, setTrades] = useState<Trade[]>([]);
-  const [tab, setTab] = useState<"dashboard" | "new" | "log" | "settings">("dashboard");
+// 开/平仓对应的买卖方向：做多开仓为买，做空开仓为卖
+function fillSide(side: Side, kind: FillKind): "buy" | "sell" {
+  return (side === "long") === (kind === "entry") ? "buy" : "sell";
+}
 
-  // draft
-  const [draft, setDraft] = useState(() => ({
-    symbol: "",
-    name: "",
-    industry: "",
-    model: "trend" as ModelType,
-    timeframe: "mid" as "mid" | "swing",
+// 有合约乘数时按 数量×乘数 计算成交额与滑点；每张固定佣金按张数另加；有费用方案时按方案逐项计费
+function fillCost(t: CostSpec, kind: FillKind, price: number, qty: number) {
+  const units = qty * mult(t);
+  const fee = t.fees
+    ? calcFee(t.fees, fillSide(t.side, kind), price, units).total + Math.abs(t.slippage || 0) * units
+    : calcFillCost(kind, price, units, t.feePct, t.exitFeePct, t.slippage);
+  return fee + (t.contractFee || 0) * qty;
+}
 
-    side: "long" as Side,
+function makeFill(t: CostSpec, kind: FillKind, price: number, qty: number, ts = Date.now()): Fill {
+  return { id: uid(), kind, price, qty, ts, fee: fillCost(t, kind, price, qty) };
+}
 
-    entry: 0,
-    stop: 0,
-    target: 0,
+// 按成交明细计算：移动平均成本法，开仓费用按平仓数量比例摊入已实现盈亏
+function calcLedger(t: Pick<Trade, "side" | "entry" | "stop" | "fills" | "multiplier">) {
+  const fills = [...(t.fills || [])].sort((a, b) => a.ts - b.ts);
+  const dir = t.side === "long" ? 1 : -1;
+  const m = mult(t);
 
-    feePct: settings.feePct,
-    exitFeePct: settings.exitFeePct,
-    slippage: settings.slippage,
+  let openQty = 0;
+  let openCost = 0;   // 持仓部分的成本（价格*数量）
+  let openFee = 0;    // 持仓部分尚未摊销的开仓费用
+  let entryQty = 0;
+  let entryNotional = 0;
+  let exitQty = 0;
+  let exitNotional = 0;
+  let realized = 0;
+  let fees = 0;
 
-    checklist: makeChecklist("trend"),
-    tags: [] as string[],
-    notes: "",
-  }));
+  for (const f of fills) {
+    fees += f.fee;
+    if (f.kind === "entry") {
+      openQty += f.qty;
+      openCost += f.price * f.qty;
+      openFee += f.fee;
+      entryQty += f.qty;
+      entryNotional += f.price * f.qty;
+      continue;
+    }
+    if (openQty <= 0) continue;
+    const q = Math.min(f.qty, openQty);
+    const avg = openCost / openQty;
+    const feeShare = openFee * (q / openQty);
+    realized += dir * (f.price - avg) * q * m - feeShare - f.fee;
+    openCost -= avg * q;
+    openFee -= feeShare;
+    openQty -= q;
+    exitQty += q;
+    exitNotional += f.price * q;
+    if (openQty < 1e-9) {
+      openQty = 0;
+      openCost = 0;
+      openFee = 0;
+    }
+  }
 
+  // R 以计划入场/止损的单股风险 × 累计开仓数量为分母；未设止损（如券商导入）时不计 R
+  const riskPer = t.stop > 0 ? dir * (t.entry - t.stop) : 0;
+  const riskMoney = riskPer > 0 ? riskPer * entryQty * m : 0;
 
-  const fileRef = useRef<HTMLInputElement | null>(null);
+  return {
+    entryQty,
+    exitQty,
+    openQty,
+    avgEntry: entryQty ? entryNotional / entryQty : 0,
+    avgExit: exitQty ? exitNotional / exitQty : 0,
+    avgOpen: openQty ? openCost / openQty : 0,
+    openFee,
+    realized,
+    fees,
+    r: riskMoney > 0 ? realized / riskMoney : 0,
+  };
+}
 
-  // load/save
-  useEffect(() => {
-    const raw = localStorage.getItem(LS_KEY);
-    if (!raw) return;
-    try {
-      const data = JSON.parse(raw);
-      if (data.settings) setSettings(data.settings);
-      if (Array.isArray(data.trades)) setTrades(data.trades);
-    } catch {}
-  }, []);
-  useEffect(() => {
-    localStorage.setItem(LS_KEY, JSON.stringify({ settings, trades }));
-  }, [settings, trades]);
+// 用成交明细回写 size/exit/pnl/r/status，保证表格与统计读到的字段一致
+function applyLedger(t: Trade): Trade {
+  const L = calcLedger(t);
+  const hasExit = L.exitQty > 0;
+  return {
+    ...t,
+    size: L.entryQty,
+    positionPct: t.equity > 0 ? (L.entryQty * L.avgEntry * mult(t)) / t.equity * 100 : t.positionPct,
+    exit: hasExit ? L.avgExit : undefined,
+    pnl: hasExit ? L.realized : undefined,
+    r: hasExit && t.stop > 0 ? L.r : undefined,
+    status: hasExit && L.openQty === 0 ? "closed" : !L.entryQty && PRE_TRADE.includes(t.status) ? t.status : "open",
+  };
+}
 
-  const items = draft.model === "trend" ? TREND : REBOUND;
-  const s = useMemo(() => score(draft.model, draft.checklist), [draft.model, draft.checklist]);
-  const sizing = useMemo(
-   () => 
-     calcSizing(
-       settings.equity,
-       settings.maxRiskPct,
-       Number(draft.entry),
-       Number(draft.stop),
-       settings.lotSize,
-       draft.side,
-       Number(draft.feePct),
-       Number(draft.exitFeePct),
-       Number(draft.slippage)
-  
-      ),
-    [
-      settings.equity,
-      settings.maxRiskPct,
-      draft.entry,
-      draft.stop,
-      settings.lotSize,
-      draft.side,
-      draft.feePct,
-      draft.exitFeePct,
-      draft.slippage,
-    ]
-  );
-  
-  function resetDraft() {
-    setDraft({
-      symbol: "",
-      name: "",
-      industry: "",
-      model: "trend",
-      timeframe: "mid",
-      side: "long",
-      entry: 0,
-      stop: 0,
-      target: 0,
-      feePct: settings.feePct,
-      exitFeePct: settings.exitFeePct,
-      slippage: settings.slippage,
-      checklist: makeChecklist("trend"),
-      tags: [],
-      notes: "",
-    });
-  }
+// 旧数据没有 fills：按 entry/size/exit 补出一进一出两笔成交（补出的成交未核对，按计划价处理）
+function withFills(t: Trade): Trade {
+  if (Array.isArray(t.fills)) return t;
+  const fills: Fill[] = [];
+  if (t.size > 0) fills.push({ ...makeFill(t, "entry", t.entry, t.size, t.createdAt), planned: true });
+  if (t.status === "closed" && t.exit && t.size > 0) fills.push({ ...makeFill(t, "exit", t.exit, t.size, t.updatedAt), planned: true });
+  if (!fills.length) return { ...t, fills };
+  return applyLedger({ ...t, fills });
+}
 
-  function addTrade() {
-    if (!draft.symbol.trim()) return alert("请填写股票代码/标的。");
-    if (!draft.stop || draft.stop <= 0) return alert("止损价必填（无止损不允许下单）。");
-    if (!draft.entry || draft.entry <= 0) return alert("入场价必填。");
+// 旧数据没有模型快照：按内置 v1 模型补上
+function withModelSnapshot(t: Trade): Trade {
+  if (t.modelSnapshot) return t;
+  return { ...t, modelSnapshot: findModel(DEFAULT_MODELS, t.model) };
+}
 
-    // ===== 多空方向止损逻辑校验 =====
-    if (draft.side === "short" && Number(draft.stop) <= Number(draft.entry)) {
-      return alert("做空时止损一般应高于入场价（stop > entry）。");
+function normalizeTrade(t: Trade): Trade {
+  return withModelSnapshot(withFills(t));
+}
+
+// 旧设置没有 models：由内置模型生成，并吸收早先的权重覆盖（weights）
+function normalizeSettings(x: any) {
+  if (Array.isArray(x.models)) return x;
+  const weights: Record<string, number> = x.weights || {};
+  const models = DEFAULT_MODELS.map((m) => {
+    const changed = m.items.some((it) => typeof weights[it.k] === "number" && weights[it.k] !== it.w);
+    if (!changed) return m;
+    const items = m.items.map((it) => (typeof weights[it.k] === "number" ? { ...it, w: weights[it.k] } : it));
+    return { ...m, items, version: m.version + 1, updatedAt: Date.now() };
+  });
+  const { weights: _, ...rest } = x;
+  return { ...rest, models };
+}
+
+function currentStop(t: Trade) {
+  const h = t.stopHistory || [];
+  return h.length ? h[h.length - 1].price : t.stop;
+}
+
+// 某一时刻生效的止损（成交发生时的止损位）
+function stopAt(t: Trade, ts: number) {
+  const h = (t.stopHistory || []).filter((c) => c.ts <= ts);
+  return h.length ? h[h.length - 1].price : t.stop;
+}
+
+// 出场价距止损/目标在初始风险的该比例以内，视为止损/目标出场；越过止损（跳空）也算止损出场
+const EXEC_TOL = 0.25;
+
+// 执行质量：实际成交相对计划价位的滑点（不利为正，按价格单位 × 数量累计）
+// 只统计已核对的成交；离止损/目标都远的主动出场不计滑点
+function calcExecution(t: Trade) {
+  const dir = t.side === "long" ? 1 : -1;
+  const m = mult(t);
+  const risk = t.stop > 0 ? Math.abs(t.entry - t.stop) : 0;
+  const tol = risk * EXEC_TOL;
+
+  let allEntryQty = 0;
+  let entryQty = 0;
+  let entrySlip = 0;
+  let stopQty = 0;
+  let stopSlip = 0;
+  let targetQty = 0;
+  let targetSlip = 0;
+  let assumed = 0;
+
+  for (const f of t.fills || []) {
+    if (f.kind === "entry") allEntryQty += f.qty;
+    if (f.planned) continue;
+    if (f.kind === "entry") {
+      entryQty += f.qty;
+      entrySlip += dir * (f.price - t.entry) * f.qty;
+      assumed += Math.abs(t.slippage || 0) * f.qty;
+      continue;
     }
-    if (draft.side === "long" && Number(draft.stop) >= Number(draft.entry)) {
-      return alert("做多时止损一般应低于入场价（stop < entry）。");
+    const stop = stopAt(t, f.ts);
+    if (risk > 0 && (Math.abs(f.price - stop) <= tol || dir * (stop - f.price) > 0)) {
+      stopQty += f.qty;
+      stopSlip += dir * (stop - f.price) * f.qty;
+      assumed += Math.abs(t.slippage || 0) * f.qty;
+    } else if (t.target && risk > 0 && (Math.abs(f.price - t.target) <= tol || dir * (f.price - t.target) > 0)) {
+      targetQty += f.qty;
+      targetSlip += dir * (t.target - f.price) * f.qty;
+      assumed += Math.abs(t.slippage || 0) * f.qty;
     }
-    // ==============================
+  }
 
-    const now = Date.now();
-    const t: Trade = {
-      id: uid(),
-      createdAt: now,
-      updatedAt: now,
+  const slipMoney = (entrySlip + stopSlip + targetSlip) * m;
+  const riskMoney = risk * allEntryQty * m;
+  return {
+    entryQty,
+    entrySlip,
+    stopQty,
+    stopSlip,
+    targetQty,
+    targetSlip,
+    assumed,
+    slipMoney,
+    rLost: riskMoney > 0 ? slipMoney / riskMoney : 0,
+  };
+}
 
-      symbol: draft.symbol.trim(),
-      name: draft.name?.trim(),
-      industry: draft.industry?.trim(),
+// 计划到期自动转为已过期；取消/过期的计划在行情触及止损或目标时记下假设出场
+// 假设按计划价入场，只记第一次触及；没有变化时返回 null
+function advancePlans(trades: Trade[], quotes: Record<string, Quote>, now: number) {
+  let changed = false;
+  const next = trades.map((t) => {
+    if (t.status === "planned" && t.expiresAt && t.expiresAt < now) {
+      changed = true;
+      return { ...t, status: "expired" as Status, updatedAt: now };
+    }
+    const q = quotes[t.symbol];
+    if ((t.status !== "cancelled" && t.status !== "expired") || t.shadow || !q || q.ts < t.updatedAt || !(t.stop > 0)) return t;
+    // 先确认计划会成交：价格从第一笔报价的一侧到达/穿越触发价之后，才开始看止损与目标
+    if (!t.triggeredAt) {
+      const trig = t.trigger || t.entry;
+      if (t.shadowFrom === undefined) {
+        changed = true;
+        return { ...t, shadowFrom: q.price, triggeredAt: q.price === trig ? q.ts : undefined };
+      }
+      if (Math.sign(q.price - trig) === Math.sign(t.shadowFrom - trig)) return t;
+      changed = true;
+      return { ...t, triggeredAt: q.ts };
+    }
+    const dir = t.side === "long" ? 1 : -1;
+    const exit = dir * (q.price - t.stop) <= 0 ? t.stop : t.target && dir * (q.price - t.target) >= 0 ? t.target : 0;
+    if (!exit) return t;
+    changed = true;
+    return { ...t, shadow: { exit, ts: q.ts, auto: true } };
+  });
+  return changed ? next : null;
+}
 
-      model: draft.model,
-      timeframe: draft.timeframe,
+// 放弃的计划按假设出场计算 R（含成本，按计划数量估算以照顾最低佣金）
+function shadowR(t: Trade) {
+  if (!t.shadow || (t.shadow.auto && !t.triggeredAt)) return undefined;
+  const dir = t.side === "long" ? 1 : -1;
+  const risk = t.stop > 0 ? dir * (t.entry - t.stop) : 0;
+  if (risk <= 0) return undefined;
+  const q = t.planQty || t.size || 1;
+  const pnl = calcPnL(t.entry, t.shadow.exit, q, t.side, t.feePct, t.exitFeePct, t.slippage, mult(t), t.contractFee || 0, t.fees);
+  return pnl / (risk * q * mult(t));
+}
 
-      side: draft.side,
-      feePct: Number(draft.feePct),
-      exitFeePct: Number(draft.exitFeePct),
-      slippage: Number(draft.slippage),
+// 放弃的计划与实际执行的交易对比
+function calcSkippedStats(trades: Trade[]) {
+  const skipped = trades.filter((t) => t.status === "cancelled" || t.status === "expired");
+  const rs = skipped.map(shadowR).filter((r): r is number => typeof r === "number");
+  const taken = trades.filter((t) => t.status === "closed" && hasR(t));
+  return {
+    skipped,
+    measured: rs.length,
+    winRate: rs.length ? rs.filter((r) => r > 0).length / rs.length : 0,
+    avgR: rs.length ? rs.reduce((s, r) => s + r, 0) / rs.length : 0,
+    takenAvgR: taken.length ? taken.reduce((s, t) => s + (t.r || 0), 0) / taken.length : 0,
+    taken: taken.length,
+  };
+}
 
+type ReplayCfg = { trailR: number; timeDays: number };
 
-      entry: Number(draft.entry),
-      stop: Number(draft.stop),
-      target: draft.target ? Number(draft.target) : undefined,
+// 跟踪止损：从持仓期最高（空头为最低）价回撤 trailR 个 R；时间止损：入场后第 timeDays 根 K 线收盘
+const DEFAULT_REPLAY: ReplayCfg = { trailR: 1.5, timeDays: 10 };
 
-      equity: settings.equity,
-      maxRiskPct: settings.maxRiskPct,
-      lotSize: settings.lotSize,
+const REPLAY_REASON_LABEL: Record<ReplayExit["reason"], string> = {
+  stop: "止损",
+  target: "目标",
+  trail: "跟踪止损",
+  time: "时间止损",
+  end: "数据截止",
+};
 
-      size: sizing.size,
-      positionPct: sizing.posPct,
+// 已平仓交易的 MAE/MFE 与替代离场，均为毛R（不含费用），与实际成交的毛R对比
+// 日线须覆盖入场日到平仓日；替代离场从入场次日开始模拟，止损沿用初始止损
+function calcReplay(t: Trade, bars: Bar[] | undefined, cfg: ReplayCfg) {
+  if (t.status !== "closed" || !bars || !bars.length) return null;
+  const L = calcLedger(t);
+  const dir = t.side === "long" ? 1 : -1;
+  const risk = t.stop > 0 ? dir * (t.entry - t.stop) : 0;
+  const start = firstEntryAt(t);
+  if (!(risk > 0) || !L.exitQty || !start) return null;
+  const held = barsBetween(bars, start, closedAt(t));
+  if (!held.length || held[0].ts !== dayStart(start) || held[held.length - 1].ts !== dayStart(closedAt(t))) return null;
 
-      score: s,
-      checklist: draft.checklist,
-      tags: draft.tags,
-      notes: draft.notes,
+  const after = bars.filter((b) => b.ts > dayStart(start));
+  const rOf = (x: ReplayExit | null) => (x ? { ...x, r: (dir * (x.price - L.avgEntry)) / risk } : undefined);
+  const hasTarget = !!t.target && dir * (t.target - L.avgEntry) > 0;
+  return {
+    ...excursion(t.side, L.avgEntry, risk, held)!,
+    actual: (dir * (L.avgExit - L.avgEntry)) / risk,
+    target: hasTarget ? rOf(replayExit(t.side, t.stop, after, { kind: "target", target: t.target! })) : undefined,
+    trail: rOf(replayExit(t.side, t.stop, after, { kind: "trail", trail: cfg.trailR * risk })),
+    time: rOf(replayExit(t.side, t.stop, after, { kind: "time", days: cfg.timeDays })),
+  };
+}
 
-      status: "open",
+// 规则回测与实际交易用同一口径比较：胜 = R > 0，Profit Factor 按 R 合计
+function rSummary(rs: number[]) {
+  const wins = rs.filter((r) => r > 0);
+  const losses = rs.filter((r) => r <= 0);
+  const sumWin = wins.reduce((s, r) => s + r, 0);
+  const sumLoss = Math.abs(losses.reduce((s, r) => s + r, 0));
+  return {
+    count: rs.length,
+    winRate: rs.length ? wins.length / rs.length : 0,
+    avgR: rs.length ? rs.reduce((s, r) => s + r, 0) / rs.length : 0,
+    avgWinR: wins.length ? sumWin / wins.length : 0,
+    avgLossR: losses.length ? -sumLoss / losses.length : 0,
+    profitFactor: sumLoss === 0 ? (sumWin > 0 ? Infinity : 0) : sumWin / sumLoss,
+  };
+}
+
+// 按模型汇总：平均 MAE/MFE、实际毛R 与各替代离场的平均R；捕获率 = 实际毛R 合计 / MFE 合计
+function calcReplayStats(trades: Trade[], bars: Record<string, Bar[]>, cfg: ReplayCfg, models: ScoreModel[]) {
+  const closed = trades.filter((t) => t.status === "closed");
+  const rows = closed
+    .map((t) => ({ t, x: calcReplay(t, bars[normSymbol(t.symbol)], cfg) }))
+    .filter((r): r is { t: Trade; x: NonNullable<ReturnType<typeof calcReplay>> } => !!r.x);
+  const avg = (xs: number[]) => (xs.length ? xs.reduce((s, x) => s + x, 0) / xs.length : undefined);
+  const summarize = (key: string, list: typeof rows) => {
+    const targets = list.map((r) => r.x.target).filter((x): x is NonNullable<typeof x> => !!x);
+    const mfe = list.reduce((s, r) => s + r.x.mfe, 0);
+    return {
+      key,
+      n: list.length,
+      mae: avg(list.map((r) => r.x.mae)),
+      mfe: avg(list.map((r) => r.x.mfe)),
+      actual: avg(list.map((r) => r.x.actual)),
+      target: avg(targets.map((x) => x.r)),
+      targetN: targets.length,
+      trail: avg(list.map((r) => r.x.trail!.r)),
+      time: avg(list.map((r) => r.x.time!.r)),
+      capture: mfe > 0 ? list.reduce((s, r) => s + r.x.actual, 0) / mfe : undefined,
+      unfinished: list.filter((r) => [r.x.target, r.x.trail, r.x.time].some((x) => x && x.reason === "end")).length,
     };
+  };
+  const groups = new Map<string, typeof rows>();
+  rows.forEach((r) => {
+    const k = tradeModel(r.t, models).name;
+    groups.set(k, [...(groups.get(k) || []), r]);
+  });
+  return {
+    closed: closed.length,
+    covered: rows.length,
+    rows: Array.from(groups.entries()).map(([k, list]) => summarize(k, list)).sort((a, b) => b.n - a.n),
+    total: summarize("全部", rows),
+  };
+}
 
-    setTrades((x) => [t, ...x]);
-    resetDraft();
-    setTab("log");
-  }
+function dateInput(ts?: number) {
+  if (!ts) return "";
+  const d = new Date(ts);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
+}
 
-  function delTrade(id: string) {
-    if (!confirm("确定删除这笔交易？")) return;
-    setTrades((x) => x.filter((t) => t.id !== id));
-  }
+// 按最后一笔平仓成交推断离场原因，作为复盘表单的默认值
+function guessExitReason(t: Trade): ExitReason {
+  const last = [...(t.fills || [])].sort((a, b) => b.ts - a.ts).find((f) => f.kind === "exit");
+  const risk = t.stop > 0 ? Math.abs(t.entry - t.stop) : 0;
+  if (!last || !risk) return "discretionary";
+  const dir = t.side === "long" ? 1 : -1;
+  const stop = stopAt(t, last.ts);
+  if (Math.abs(last.price - stop) <= risk * EXEC_TOL || dir * (stop - last.price) > 0) return "stop";
+  if (t.target && (Math.abs(last.price - t.target) <= risk * EXEC_TOL || dir * (last.price - t.target) > 0)) return "target";
+  return "discretionary";
+}
 
-  function closeTrade(id: string) {
-    const exitStr = prompt("输入平仓价：");
-    if (!exitStr) return;
-    const exit = Number(exitStr);
-    if (!exit || exit <= 0) return alert("平仓价无效。");
+// 多笔交易的执行质量汇总：每单位平均滑点与设定滑点对比
+function calcExecStats(trades: Trade[]) {
+  const list = trades.map(calcExecution).filter((x) => x.entryQty + x.stopQty + x.targetQty > 0);
+  const sum = (k: keyof ReturnType<typeof calcExecution>) => list.reduce((s, x) => s + x[k], 0);
+  const entryQty = sum("entryQty");
+  const stopQty = sum("stopQty");
+  const targetQty = sum("targetQty");
+  const qty = entryQty + stopQty + targetQty;
+  const rLost = sum("rLost");
+  return {
+    n: list.length,
+    qty,
+    entrySlip: entryQty ? sum("entrySlip") / entryQty : 0,
+    stopSlip: stopQty ? sum("stopSlip") / stopQty : 0,
+    targetSlip: targetQty ? sum("targetSlip") / targetQty : 0,
+    actual: qty ? (sum("entrySlip") + sum("stopSlip") + sum("targetSlip")) / qty : 0,
+    assumed: qty ? sum("assumed") / qty : 0,
+    rLost,
+    rLostAvg: list.length ? rLost / list.length : 0,
+  };
+}
 
-    setTrades((x) =>
-      x.map((t) => {
-        if (t.id !== id) return t;
-        const pnl = calcPnL(t.entry, exit, t.size, t.side, t.feePct, t.exitFeePct, t.slippage);
-        const r = calcR(t.entry, t.stop, exit, t.side, t.feePct, t.exitFeePct, t.slippage);
+// 按当前止损计算剩余持仓的风险：正数为仍承担的亏损，负数为已锁定的利润
+function calcLockedRisk(t: Trade) {
+  const L = calcLedger(t);
+  const dir = t.side === "long" ? 1 : -1;
+  const m = mult(t);
+  const stop = currentStop(t);
+  const money =
+    L.openQty > 0
+      ? dir * (L.avgOpen - stop) * L.openQty * m + L.openFee + fillCost(t, "exit", stop, L.openQty)
+      : 0;
+  const riskPer = t.stop > 0 ? dir * (t.entry - t.stop) : 0;
+  const riskMoney = riskPer > 0 ? riskPer * L.entryQty * m : 0;
+  return { stop, money, r: riskMoney > 0 ? money / riskMoney : 0 };
+}
 
-        return { ...t, status: "closed", exit, pnl, r, updatedAt: Date.now() };
-      })
-    );
-  }
+// 从录入的价格估算 ATR：每行 “最高,最低,收盘” 用真实波幅，只有收盘价时用相邻收盘差
+function calcATR(text: string, n: number) {
+  const rows = text
+    .split(/\n/)
+    .map((l) => l.split(/[,\s]+/).map(Number).filter((x) => Number.isFinite(x) && x > 0))
+    .filter((r) => r.length);
+  const tr: number[] = [];
+  rows.forEach((r, i) => {
+    const prevClose = i > 0 ? rows[i - 1][rows[i - 1].length - 1] : undefined;
+    if (r.length >= 3) {
+      const [h, l] = r;
+      tr.push(prevClose === undefined ? h - l : Math.max(h - l, Math.abs(h - prevClose), Math.abs(l - prevClose)));
+    } else if (prevClose !== undefined) {
+      tr.push(Math.abs(r[0] - prevClose));
+    }
+  });
+  const last = tr.slice(-Math.max(1, n || 14));
+  return last.length ? last.reduce((s, x) => s + x, 0) / last.length : 0;
+}
 
-  function exportJSON() {
-    const blob = new Blob([JSON.stringify({ settings, trades }, null, 2)], { type: "application/json" });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement("a");
-    a.href = url;
-    a.download = "trading_ops_export.json";
-    a.click();
-    URL.revokeObjectURL(url);
-  }
+// 各模式下的建议止损；跟踪类只收紧不放松
+function suggestStop(
+  t: Trade,
+  mode: StopMode,
+  o: { price: number; ref: number; pct: number; atrText: string; atrN: number; atrK: number }
+) {
+  const L = calcLedger(t);
+  const dir = t.side === "long" ? 1 : -1;
+  const cur = currentStop(t);
+  const tighten = (x: number) => (dir > 0 ? Math.max(cur, x) : Math.min(cur, x));
 
-  function importJSON(file: File) {
-    const r = new FileReader();
-    r.onload = () => {
-      try {
-        const data = JSON.parse(String(r.result || "{}"));
-        if (data.settings) setSettings(data.settings);
-        if (Array.isArray(data.trades)) setTrades(data.trades);
-        alert("导入成功 ✅");
-      } catch {
-        alert("导入失败：文件格式不正确");
-      }
-    };
-    r.readAsText(file);
+  if (mode === "manual") return { price: o.price, note: "" };
+  if (mode === "breakeven") {
+    // 含费用的保本价：开仓费用 + 预估平仓成本摊到每股
+    const units = L.openQty * mult(t);
+    const costPer = units > 0 ? (L.openFee + fillCost(t, "exit", L.avgOpen, L.openQty)) / units : 0;
+    return { price: L.avgOpen + dir * costPer, note: `均价 ${fmt(L.avgOpen, 3)} + 成本 ${fmt(costPer, 3)}` };
+  }
+  if (mode === "trail_pct") {
+    return { price: tighten(o.ref * (1 - dir * (o.pct / 100))), note: `参考价 ${fmt(o.ref, 3)} · ${fmt(o.pct, 2)}%` };
   }
+  const atr = calcATR(o.atrText, o.atrN);
+  return { price: atr > 0 ? tighten(o.ref - dir * o.atrK * atr) : cur, note: `参考价 ${fmt(o.ref, 3)} · ATR(${o.atrN}) ${fmt(atr, 3)} × ${o.atrK}` };
+}
 
-  const kpi = useMemo(() => {
-    const closed = trades.filter((t) => t.status === "closed" && typeof t.pnl === "number");
-    const wins = closed.filter((t) => (t.pnl || 0) > 0);
-    const losses = closed.filter((t) => (t.pnl || 0) < 0);
-    const winRate = closed.length ? wins.length / closed.length : 0;
+// 持仓盯市：浮动盈亏扣除未摊销的开仓费用与预估平仓成本
+function calcMark(t: Trade, price: number) {
+  const L = calcLedger(t);
+  const dir = t.side === "long" ? 1 : -1;
+  const m = mult(t);
+  const unrealized =
+    L.openQty > 0
+      ? dir * (price - L.avgOpen) * L.openQty * m - L.openFee - fillCost(t, "exit", price, L.openQty)
+      : 0;
+  const riskPer = t.stop > 0 ? dir * (t.entry - t.stop) : 0;
+  const riskMoney = riskPer > 0 ? riskPer * L.entryQty * m : 0;
+  const stop = currentStop(t);
+  return {
+    unrealized,
+    openR: riskMoney > 0 ? unrealized / riskMoney : 0,
+    toStop: price > 0 ? (dir * (price - stop)) / price * 100 : 0,                       // 距止损%，正数表示仍有缓冲
+    toTarget: t.target && price > 0 ? (dir * (t.target - price)) / price * 100 : undefined, // 距目标%
+  };
+}
 
-    const grossWin = wins.reduce((s, t) => s + (t.pnl || 0), 0);
-    const grossLossAbs = Math.abs(losses.reduce((s, t) => s + (t.pnl || 0), 0));
-    const profitFactor = grossLossAbs === 0 ? (grossWin > 0 ? Infinity : 0) : grossWin / grossLossAbs;
+// 止损/目标监控：同一笔交易、同一类型、同一价位只提醒一次（价位改动后会重新提醒）
+function checkAlerts(trades: Trade[], quotes: Record<string, Quote>, nearPct: number, existing: AlertRecord[]) {
+  const seen = new Set(existing.map((a) => `${a.tradeId}:${a.kind}:${a.level}`));
+  const fresh: AlertRecord[] = [];
 
-    const avgR = closed.length ? closed.reduce((s, t) => s + (t.r || 0), 0) / closed.length : 0;
+  trades.forEach((t) => {
+    const q = quotes[t.symbol];
+    if (t.status !== "open" || !q || calcLedger(t).openQty <= 0) return;
+    const dir = t.side === "long" ? 1 : -1;
+    const near = Math.max(0, nearPct || 0) / 100;
 
-    return { closedCount: closed.length, winRate, profitFactor, avgR, grossWin, grossLossAbs };
-  }, [trades]);
+    const check = (level: number | undefined, hit: AlertKind, close: AlertKind, isStop: boolean) => {
+      if (!level) return;
+      // 正数 = 尚未触及
+      const gap = isStop ? dir * (q.price - level) : dir * (level - q.price);
+      const kind = gap <= 0 ? hit : near > 0 && gap / q.price <= near ? close : null;
+      if (!kind) return;
+      // 已经提醒过“触及”就不再补发“接近”
+      if (seen.has(`${t.id}:${kind}:${level}`) || (kind === close && seen.has(`${t.id}:${hit}:${level}`))) return;
+      seen.add(`${t.id}:${kind}:${level}`);
+      fresh.push({ id: uid(), tradeId: t.id, symbol: t.symbol, kind, price: q.price, level, ts: q.ts });
+    };
 
-  return (
-    <div style={{ maxWidth: 1100, margin: "0 auto", padding: 16, fontFamily: "system-ui" }}>
-      <div style={{ display: "flex", gap: 12, justifyContent: "space-between", alignItems: "end", flexWrap: "wrap" }}>
-        <div>
+    check(currentStop(t), "stop_hit", "near_stop", true);
+    check(t.target, "target_hit", "near_target", false);
+  });
+
+  return fresh;
+}
+
+// 系统通知：部分浏览器（如安卓 Chrome）不允许直接 new Notification，改用已注册的 Service Worker；都不行就只在页面内提醒
+function showNotification(title: string, options: NotificationOptions) {
+  try {
+    new Notification(title, options);
+  } catch {
+    navigator.serviceWorker
+      ?.getRegistration()
+      .then((r) => r?.showNotification(title, options))
+      .catch(() => undefined);
+  }
+}
+
+// 提醒之后第一笔减/平仓成交相隔多久（复盘看反应是否滞后）
+function reactionMs(t: Trade, a: AlertRecord) {
+  const exit = (t.fills || []).filter((f) => f.kind === "exit" && f.ts >= a.ts).sort((x, y) => x.ts - y.ts)[0];
+  return exit ? exit.ts - a.ts : undefined;
+}
+
+function fmtDuration(ms: number) {
+  const m = Math.round(ms / 60000);
+  if (m < 60) return `${m} 分钟`;
+  if (m < 60 * 24) return `${fmt(m / 60, 1)} 小时`;
+  return `${fmt(m / 1440, 1)} 天`;
+}
+
+// 平仓时间：取最后一笔减/平仓成交时间，没有成交明细时退回 updatedAt
+function closedAt(t: Trade) {
+  const exits = (t.fills || []).filter((f) => f.kind === "exit");
+  return exits.length ? Math.max(...exits.map((f) => f.ts)) : t.updatedAt;
+}
+
+// ===== 日志筛选 / 排序 =====
+type TradeFilter = {
+  account: string; // 空 = 全部账户（合并视图）
+  q: string;
+  status: "" | Status;
+  model: string;
+  timeframe: "" | "mid" | "swing";
+  side: "" | Side;
+  industry: string;
+  tag: string;
+  from: string; // YYYY-MM-DD，按开仓日期
+  to: string;
+  pnl: "" | "win" | "loss";
+};
+
+const EMPTY_FILTER: TradeFilter = { account: "", q: "", status: "", model: "", timeframe: "", side: "", industry: "", tag: "", from: "", to: "", pnl: "" };
+
+function isFiltered(f: TradeFilter) {
+  return JSON.stringify(f) !== JSON.stringify(EMPTY_FILTER);
+}
+
+function filterTrades(trades: Trade[], f: TradeFilter) {
+  const q = f.q.trim().toLowerCase();
+  const from = f.from ? new Date(`${f.from}T00:00:00`).getTime() : -Infinity;
+  const to = f.to ? new Date(`${f.to}T23:59:59.999`).getTime() : Infinity;
+  return trades.filter((t) => {
+    if (q && ![t.symbol, t.name, t.notes].some((x) => (x || "").toLowerCase().includes(q))) return false;
+    if (f.account && t.account !== f.account) return false;
+    if (f.status && t.status !== f.status) return false;
+    if (f.model && t.model !== f.model) return false;
+    if (f.timeframe && t.timeframe !== f.timeframe) return false;
+    if (f.side && t.side !== f.side) return false;
+    if (f.industry && (t.industry || "") !== f.industry) return false;
+    if (f.tag && !(t.tags || []).includes(f.tag)) return false;
+    if (t.createdAt < from || t.createdAt > to) return false;
+    if (f.pnl === "win" && !((t.pnl || 0) > 0)) return false;
+    if (f.pnl === "loss" && !((t.pnl || 0) < 0)) return false;
+    return true;
+  });
+}
+
+type SortKey = "date" | "score" | "pnl" | "r" | "positionPct";
+
+function sortTrades(trades: Trade[], key: SortKey, desc: boolean) {
+  const val = (t: Trade) => (key === "date" ? t.createdAt : key === "pnl" ? t.pnl : key === "r" ? t.r : t[key]);
+  // 没有数值（未平仓的 PnL/R）的始终排在最后
+  return [...trades].sort((a, b) => {
+    const x = val(a);
+    const y = val(b);
+    if (typeof x !== "number") return typeof y !== "number" ? 0 : 1;
+    if (typeof y !== "number") return -1;
+    return desc ? y - x : x - y;
+  });
+}
+
+const PAGE_SIZE = 20;
+
+type EquityPoint = { ts: number; equity: number; peak: number; dd: number };
+
+function cashAmount(f: CashFlow) {
+  return f.kind === "withdraw" ? -Math.abs(f.amount) : Math.abs(f.amount);
+}
+
+// 已平仓交易按平仓时间累加，得到权益曲线与最大回撤。
+// 有出入金时按时间加权：每笔盈亏按发生前的账本权益折成收益率再连乘，曲线 = 期初资金 × 净值，出入金本身不抬高或压低曲线
+// 分红/利息属于收益（income），计入净值；出入金只改变账本权益
+function calcEquityCurve(trades: Trade[], base: number, flows: { ts: number; amount: number; income?: boolean }[] = []) {
+  const closed = trades
+    .filter((t) => t.status === "closed" && typeof t.pnl === "number")
+    .sort((a, b) => closedAt(a) - closedAt(b));
+  const events = [
+    ...closed.map((t) => ({ ts: closedAt(t), pnl: t.pnl || 0, flow: 0 })),
+    ...flows.map((f) => (f.income ? { ts: f.ts, pnl: f.amount, flow: 0 } : { ts: f.ts, pnl: 0, flow: f.amount })),
+  ].sort((a, b) => a.ts - b.ts);
+
+  let cash = base;
+  let nav = 1;
+  let equity = base;
+  let peak = base;
+  let peakTs = closed.length ? closedAt(closed[0]) : 0;
+  let maxDD = 0;
+  let maxDDPct = 0;
+  let maxDDDuration = 0;
+
+  const points: EquityPoint[] = [];
+  for (const e of events) {
+    cash += e.flow;
+    if (!e.pnl) continue;
+    const ts = e.ts;
+    nav *= cash > 0 ? 1 + e.pnl / cash : 1;
+    cash += e.pnl;
+    equity = base * nav;
+    if (equity >= peak) {
+      peak = equity;
+      peakTs = ts;
+    }
+    const dd = peak - equity;
+    if (dd > maxDD) maxDD = dd;
+    if (peak > 0 && dd / peak > maxDDPct) maxDDPct = dd / peak;
+    if (dd > 0) maxDDDuration = Math.max(maxDDDuration, ts - peakTs);
+    points.push({ ts, equity, peak, dd });
+  }
+
+  // 仍在回撤中：持续时间算到今天
+  const last = points[points.length - 1];
+  if (last && last.dd > 0) maxDDDuration = Math.max(maxDDDuration, Date.now() - peakTs);
+
+  return { points, maxDD, maxDDPct, maxDDDuration, underwater: !!last && last.dd > 0, twr: nav - 1, cash };
+}
+
+// 账户资金账本：期初资金 + 出入金/分红 + 已实现盈亏（含部分平仓），按时间得到余额与历史最高
+function calcAccountLedger(a: Account, trades: Trade[], flows: CashFlow[]) {
+  const rows = [
+    ...flows.filter((f) => f.account === a.id).map((f) => ({ ts: f.ts, kind: f.kind as CashKind | "trade", amount: cashAmount(f), label: f.note || "" })),
+    ...trades
+      .filter((t) => t.account === a.id && typeof t.pnl === "number")
+      .map((t) => ({ ts: closedAt(t), kind: "trade" as const, amount: t.pnl || 0, label: t.symbol })),
+  ].sort((x, y) => x.ts - y.ts);
+
+  let balance = a.equity;
+  let peak = a.equity;
+  const out = rows.map((r) => {
+    balance += r.amount;
+    peak = Math.max(peak, balance);
+    return { ...r, balance };
+  });
+  const flowsNet = out.filter((r) => r.kind !== "trade").reduce((s, r) => s + r.amount, 0);
+  return { rows: out, current: balance, peak, flowsNet, realized: balance - a.equity - flowsNet };
+}
+
+function sizingEquity(a: Account, ledger: { current: number; peak: number }) {
+  if (a.sizing === "fixed") return a.equity;
+  if (a.sizing === "peak") return ledger.peak;
+  return ledger.current;
+}
+
+function periodKey(ts: number, period: "month" | "week") {
+  const d = new Date(ts);
+  if (period === "month") return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+  // ISO 周：以周四所在年份为准
+  const x = new Date(Date.UTC(d.getFullYear(), d.getMonth(), d.getDate()));
+  const day = x.getUTCDay() || 7;
+  x.setUTCDate(x.getUTCDate() + 4 - day);
+  const yearStart = new Date(Date.UTC(x.getUTCFullYear(), 0, 1));
+  const week = Math.ceil(((x.getTime() - yearStart.getTime()) / 86400000 + 1) / 7);
+  return `${x.getUTCFullYear()}-W${String(week).padStart(2, "0")}`;
+}
+
+function calcPeriodPnL(trades: Trade[], period: "month" | "week") {
+  const m = new Map<string, number>();
+  trades
+    .filter((t) => t.status === "closed" && typeof t.pnl === "number")
+    .forEach((t) => {
+      const k = periodKey(closedAt(t), period);
+      m.set(k, (m.get(k) || 0) + (t.pnl || 0));
+    });
+  return Array.from(m.entries()).sort((a, b) => (a[0] < b[0] ? -1 : 1)).map(([key, pnl]) => ({ key, pnl }));
+}
+
+type GroupDim = "model" | "timeframe" | "side" | "industry" | "tags";
+
+const GROUP_DIMS: { k: GroupDim; t: string }[] = [
+  { k: "model", t: "模型" },
+  { k: "timeframe", t: "周期" },
+  { k: "side", t: "方向" },
+  { k: "industry", t: "行业" },
+  { k: "tags", t: "标签" },
+];
+
+// R 分布区间：<-2, -2~-1, -1~0, 0~1, 1~2, 2~3, >=3
+const R_BINS = [-2, -1, 0, 1, 2, 3];
+const R_BIN_LABELS = ["<-2", "-2~-1", "-1~0", "0~1", "1~2", "2~3", "≥3"];
+
+function groupKeys(t: Trade, dim: GroupDim, models: ScoreModel[]): string[] {
+  if (dim === "model") return [tradeModel(t, models).name];
+  if (dim === "timeframe") return [t.timeframe === "mid" ? "中线" : "波段"];
+  if (dim === "side") return [t.side === "long" ? "做多" : "做空"];
+  if (dim === "industry") return [t.industry || "（未填）"];
+  // 一笔交易可属于多个标签分组
+  return t.tags && t.tags.length ? t.tags : ["（无标签）"];
+}
+
+function calcGroupStats(trades: Trade[], dim: GroupDim, models: ScoreModel[]) {
+  const closed = trades.filter((t) => t.status === "closed" && typeof t.pnl === "number");
+  const groups = new Map<string, Trade[]>();
+  closed.forEach((t) => groupKeys(t, dim, models).forEach((k) => groups.set(k, [...(groups.get(k) || []), t])));
+
+  return Array.from(groups.entries())
+    .map(([key, list]) => {
+      const wins = list.filter((t) => (t.pnl || 0) > 0);
+      const losses = list.filter((t) => (t.pnl || 0) <= 0);
+      const grossWin = wins.reduce((s, t) => s + (t.pnl || 0), 0);
+      const grossLossAbs = Math.abs(losses.reduce((s, t) => s + (t.pnl || 0), 0));
+      const winsR = wins.filter(hasR);
+      const lossesR = losses.filter(hasR);
+      const avgWinR = winsR.length ? winsR.reduce((s, t) => s + (t.r || 0), 0) / winsR.length : 0;
+      const avgLossR = lossesR.length ? lossesR.reduce((s, t) => s + (t.r || 0), 0) / lossesR.length : 0;
+      const winRate = wins.length / list.length;
+      const winRateR = winsR.length + lossesR.length ? winsR.length / (winsR.length + lossesR.length) : 0;
+
+      const hist = R_BIN_LABELS.map(() => 0);
+      list.filter(hasR).forEach((t) => {
+        const i = R_BINS.findIndex((b) => (t.r || 0) < b);
+        hist[i === -1 ? R_BINS.length : i] += 1;
+      });
+
+      return {
+        key,
+        count: list.length,
+        winRate,
+        avgWinR,
+        avgLossR,
+        expectancy: winRateR * avgWinR + (1 - winRateR) * avgLossR, // 每笔期望（R），只计有止损的交易
+        profitFactor: grossLossAbs === 0 ? (grossWin > 0 ? Infinity : 0) : grossWin / grossLossAbs,
+        pnl: grossWin - grossLossAbs,
+        hist,
+      };
+    })
+    .sort((a, b) => b.expectancy - a.expectancy);
+}
+
+// 没有止损的交易（如券商导入后尚未补止损）没有 R，不计入 R 的平均
+function hasR(t: Trade) {
+  return typeof t.r === "number" && t.stop > 0;
+}
+
+function rStats(list: Trade[]) {
+  const wins = list.filter((t) => (t.pnl || 0) > 0);
+  const rl = list.filter(hasR);
+  return {
+    count: list.length,
+    winRate: list.length ? wins.length / list.length : 0,
+    expectancy: rl.length ? rl.reduce((s, t) => s + (t.r || 0), 0) / rl.length : 0, // 平均R
+  };
+}
+
+function rRow(key: string, list: Trade[]) {
+  return { key, ...rStats(list), pnl: list.reduce((s, t) => s + (t.pnl || 0), 0) };
+}
+
+// 复盘统计：每类错误的次数、盈亏与相对“无错误”交易的 R 代价
+function calcReviewStats(trades: Trade[], mistakes: MistakeType[]) {
+  const closed = trades.filter((t) => t.status === "closed" && typeof t.pnl === "number");
+  const reviewed = closed.filter((t) => t.review);
+  const clean = reviewed.filter((t) => !t.review!.mistakes.length);
+  const base = rStats(clean).expectancy;
+
+  const ids = Array.from(new Set([...mistakes.map((m) => m.id), ...reviewed.flatMap((t) => t.review!.mistakes)]));
+  const rows = ids
+    .map((id) => {
+      const list = reviewed.filter((t) => t.review!.mistakes.includes(id));
+      const label = mistakes.find((m) => m.id === id)?.label || `（已删除）${id}`;
+      const row = rRow(label, list);
+      // 代价 = (该错误交易的平均R − 无错误交易的平均R) × 次数；无错误样本时只看自身 R 合计
+      const delta = clean.length ? row.expectancy - base : row.expectancy;
+      return { id, ...row, delta, cost: delta * list.length };
+    })
+    .filter((r) => r.count > 0)
+    .sort((a, b) => a.cost - b.cost);
+
+  return {
+    closed: closed.length,
+    reviewed: reviewed.length,
+    clean: rRow("无错误", clean),
+    rows,
+    plan: [rRow("遵守计划", reviewed.filter((t) => t.review!.followedPlan)), rRow("未遵守", reviewed.filter((t) => !t.review!.followedPlan))],
+    exits: (Object.keys(EXIT_REASON_LABEL) as ExitReason[]).map((k) => rRow(EXIT_REASON_LABEL[k], reviewed.filter((t) => t.review!.exitReason === k))),
+    emotions: [1, 2, 3, 4, 5].map((e) => rRow(`${e} ${EMOTION_LABEL[e]}`, reviewed.filter((t) => t.review!.emotion === e))),
+  };
+}
+
+const SCORE_BANDS = [
+  { lo: 0, hi: 60, t: "<60" },
+  { lo: 60, hi: 70, t: "60–69" },
+  { lo: 70, hi: 80, t: "70–79" },
+  { lo: 80, hi: 90, t: "80–89" },
+  { lo: 90, hi: 101, t: "≥90" },
+];
+
+// 清单得分 vs 实际结果：按分数段/结论分桶，并逐项比较“勾选 vs 未勾选”的期望值
+function calcCalibration(trades: Trade[], model: ScoreModel) {
+  const closed = trades.filter((t) => t.model === model.id && t.status === "closed" && typeof t.pnl === "number");
+
+  const bands = SCORE_BANDS.map((b) => ({ ...b, ...rStats(closed.filter((t) => t.score >= b.lo && t.score < b.hi)) }));
+
+  const verdicts = new Map<string, Trade[]>();
+  closed.forEach((t) => {
+    const v = verdict(t.modelSnapshot || model, t.score);
+    verdicts.set(v, [...(verdicts.get(v) || []), t]);
+  });
+
+  const items = model.items.map((it) => {
+    const on = rStats(closed.filter((t) => t.checklist?.[it.k]));
+    const off = rStats(closed.filter((t) => !t.checklist?.[it.k]));
+    const hasData = on.count > 0 && off.count > 0;
+    const lift = hasData ? on.expectancy - off.expectancy : 0;
+    // 样本少时向原权重收缩：n/(n+5)
+    const n = Math.min(on.count, off.count);
+    const raw = it.w * Math.exp(lift * (n / (n + 5)));
+    return { ...it, on, off, hasData, lift, raw };
+  });
+
+  // 调整后保持总权重不变
+  const total = items.reduce((s, x) => s + x.w, 0);
+  const rawTotal = items.reduce((s, x) => s + x.raw, 0) || 1;
+
+  return {
+    count: closed.length,
+    bands,
+    verdicts: Array.from(verdicts.entries()).map(([t, list]) => ({ t, ...rStats(list) })),
+    items: items.map((x) => ({ ...x, suggested: Math.max(1, Math.round((x.raw / rawTotal) * total)) })),
+  };
+}
+
+// 组合风控：按当前持仓汇总止损风险（heat）与行业/标的名义敞口（调用方按账户筛选，金额为账户币种）
+function calcPortfolio(trades: Trade[]) {
+  const open = trades
+    .filter((t) => t.status === "open")
+    .map((t) => ({ t, L: calcLedger(t) }))
+    .filter((x) => x.L.openQty > 0);
+
+  let heat = 0;
+  let margin = 0;
+  const byIndustry = new Map<string, number>();
+  const bySymbol = new Map<string, number>();
+  open.forEach(({ t, L }) => {
+    const riskPer = calcSizing(0, 0, L.avgOpen, currentStop(t), 1, t.side, t.feePct, t.exitFeePct, t.slippage, mult(t), t).riskPer;
+    heat += riskPer * L.openQty * mult(t);
+    const notional = L.avgOpen * L.openQty * mult(t);
+    margin += notional * ((t.marginPct ?? 100) / 100);
+    const ind = t.industry || "";
+    if (ind) byIndustry.set(ind, (byIndustry.get(ind) || 0) + notional);
+    bySymbol.set(t.symbol, (bySymbol.get(t.symbol) || 0) + notional);
+  });
+
+  return { heat, margin, positions: open.length, byIndustry, bySymbol };
+}
+
+type RiskLimits = { maxHeatPct?: number; maxPositions?: number; maxIndustryPct?: number; maxSymbolPct?: number };
+
+// 新计划是否突破组合限制；返回按各项限制压缩后的最大数量（0 表示不限的限制不参与）
+function checkLimits(
+  pf: ReturnType<typeof calcPortfolio>,
+  limits: RiskLimits,
+  equity: number,
+  plan: { symbol: string; industry: string; entry: number; riskPer: number; size: number; lotSize: number }
+) {
+  const breaches: string[] = [];
+  let cap = plan.size;
+
+  const heatCap = (limits.maxHeatPct || 0) > 0 ? equity * (limits.maxHeatPct! / 100) : Infinity;
+  if (plan.riskPer > 0 && pf.heat + plan.riskPer * plan.size > heatCap) {
+    cap = Math.min(cap, Math.max(0, (heatCap - pf.heat) / plan.riskPer));
+    breaches.push(`总持仓风险将超过 ${fmt(limits.maxHeatPct, 1)}%`);
+  }
+
+  const ind = plan.industry.trim();
+  const indCap = (limits.maxIndustryPct || 0) > 0 ? equity * (limits.maxIndustryPct! / 100) : Infinity;
+  const indNow = ind ? pf.byIndustry.get(ind) || 0 : 0;
+  if (ind && plan.entry > 0 && indNow + plan.entry * plan.size > indCap) {
+    cap = Math.min(cap, Math.max(0, (indCap - indNow) / plan.entry));
+    breaches.push(`行业「${ind}」敞口将超过 ${fmt(limits.maxIndustryPct, 1)}%`);
+  }
+
+  const sym = plan.symbol.trim();
+  const symCap = (limits.maxSymbolPct || 0) > 0 ? equity * (limits.maxSymbolPct! / 100) : Infinity;
+  const symNow = sym ? pf.bySymbol.get(sym) || 0 : 0;
+  if (sym && plan.entry > 0 && symNow + plan.entry * plan.size > symCap) {
+    cap = Math.min(cap, Math.max(0, (symCap - symNow) / plan.entry));
+    breaches.push(`标的「${sym}」敞口将超过 ${fmt(limits.maxSymbolPct, 1)}%`);
+  }
+
+  const lot = Math.max(1, plan.lotSize || 1);
+  cap = Math.floor(cap / lot) * lot;
+
+  // 持仓数量无法靠压缩仓位解决，只能提示
+  const posBlocked = (limits.maxPositions || 0) > 0 && pf.positions >= limits.maxPositions!;
+  if (posBlocked) breaches.push(`持仓数已达上限 ${limits.maxPositions}`);
+
+  return {
+    breaches,
+    cap,
+    // 压缩后仍不可行：持仓数已满，或额度已用完
+    blocked: posBlocked || (plan.size > 0 && cap <= 0),
+    indNow,
+    symNow,
+  };
+}
+
+// 数据结构迁移链：MIGRATIONS[n] 把 schema n 升级到 n+1；没有 schema 字段的旧数据按 v1 处理
+const MIGRATIONS: Record<number, (d: any) => any> = {
+  // v1 → v2：早期交易没有方向与成本字段（当时盈亏不含成本，补 0 保持原结果）
+  1: (d) => ({
+    ...d,
+    trades: (d.trades || []).map((t: any) => ({ side: "long", feePct: 0, exitFeePct: 0, slippage: 0, ...t })),
+  }),
+  // v2 → v3：补成交明细与模型快照，设置里生成可编辑模型
+  2: (d) => ({
+    ...d,
+    settings: d.settings ? normalizeSettings(d.settings) : d.settings,
+    trades: (d.trades || []).map((t: any) => (t && typeof t === "object" ? normalizeTrade(t) : t)),
+  }),
+  // v3 → v4：单一账户参数移入账户列表，交易归属默认账户
+  3: (d) => ({
+    ...d,
+    settings: d.settings ? withAccounts(d.settings) : d.settings,
+    trades: (d.trades || []).map((t: any) =>
+      t && typeof t === "object" ? { account: DEFAULT_ACCOUNT.id, currency: DEFAULT_ACCOUNT.currency, multiplier: 1, ...t } : t
+    ),
+  }),
+  // v4 → v5：早先新建持仓时按计划价自动生成的那笔开仓（创建时刻、计划入场价、非券商导入）没有计划标记，补标为未核对
+  4: (d) => ({
+    ...d,
+    trades: (d.trades || []).map((t: any) => {
+      if (!t || typeof t !== "object" || !Array.isArray(t.fills) || !t.fills.length) return t;
+      const [f, ...rest] = t.fills as Fill[];
+      const auto = f.kind === "entry" && !f.fp && !f.planned && f.ts === t.createdAt && f.price === t.entry;
+      return auto ? { ...t, fills: [{ ...f, planned: true }, ...rest] } : t;
+    }),
+  }),
+};
+
+function withAccounts(x: any) {
+  if (Array.isArray(x.accounts)) return x;
+  const { equity, lotSize, feePct, exitFeePct, slippage, ...rest } = x;
+  const acct: Account = { ...DEFAULT_ACCOUNT };
+  Object.entries({ equity, lotSize, feePct, exitFeePct, slippage }).forEach(([k, v]) => {
+    if (typeof v === "number") (acct as any)[k] = v;
+  });
+  return { baseCurrency: "CNY", fx: {}, ...rest, accounts: [acct] };
+}
+
+function migrate(d: any) {
+  if (!d || typeof d !== "object") throw new Error("不是有效的数据对象");
+  let v = Number(d.schema) || 1;
+  if (v > SCHEMA_VERSION) throw new Error(`数据版本 v${v} 高于当前程序支持的 v${SCHEMA_VERSION}`);
+  let x = d;
+  while (v < SCHEMA_VERSION) x = MIGRATIONS[v++](x);
+  return { ...x, schema: SCHEMA_VERSION };
+}
+
+function validateTrade(t: any): string[] {
+  const e: string[] = [];
+  if (!t || typeof t !== "object") return ["不是对象"];
+  if (!t.id || typeof t.id !== "string") e.push("缺少 id");
+  if (!t.symbol || typeof t.symbol !== "string") e.push("缺少标的");
+  if (!t.account || typeof t.account !== "string") e.push("缺少账户");
+  if (t.side !== "long" && t.side !== "short") e.push("方向无效");
+  if (!STATUS_LABEL[t.status as Status]) e.push("状态无效");
+  if (t.status !== "watch" && !(Number(t.entry) > 0)) e.push("入场价无效");
+  if (!(Number(t.stop) >= 0)) e.push("止损价无效");
+  if (!Number.isFinite(Number(t.createdAt))) e.push("创建时间无效");
+  if (!Array.isArray(t.fills)) e.push("缺少成交明细");
+  else if (t.fills.some((f: any) => (f?.kind !== "entry" && f?.kind !== "exit") || !(f.price > 0) || !(f.qty > 0) || !Number.isFinite(f.ts))) {
+    e.push("成交明细有误");
+  }
+  return e;
+}
+
+type ImportRow = { t: Trade; kind: "add" | "update" | "conflict" | "same" };
+
+// 导入预览：按 id 对比本地。导入版本更新时间更晚 = 更新；本地更晚或同时间不同内容 = 冲突
+function diffImport(local: Trade[], incoming: any[]) {
+  const byId = new Map(local.map((t) => [t.id, t]));
+  const rows: ImportRow[] = [];
+  const invalid: { i: number; symbol?: string; errors: string[] }[] = [];
+
+  incoming.forEach((t, i) => {
+    const errors = validateTrade(t);
+    if (errors.length) return invalid.push({ i, symbol: t?.symbol, errors });
+    const cur = byId.get(t.id);
+    if (!cur) rows.push({ t, kind: "add" });
+    else if (JSON.stringify(cur) === JSON.stringify(t)) rows.push({ t, kind: "same" });
+    else rows.push({ t, kind: t.updatedAt > cur.updatedAt ? "update" : "conflict" });
+  });
+
+  return { rows, invalid };
+}
+
+type Backup = { ts: number; reason: string; data: any };
+
+// 破坏性操作前的自动快照，只保留最近 5 份
+function pushBackup(list: Backup[], reason: string, data: any): Backup[] {
+  return [{ ts: Date.now(), reason, data }, ...list].slice(0, 5);
+}
+
+type ChangeOp = "create" | "update" | "close" | "reopen" | "delete";
+type TradeChange = { op: ChangeOp; before?: Trade; after?: Trade };
+type ChangeRecord = TradeChange & { seq?: number; tradeId: string; ts: number; source: string };
+type TrashItem = { id: string; trade: Trade; deletedAt: number };
+
+const TRASH_DAYS = 30;
+
+const CHANGE_LABEL: Record<ChangeOp, string> = {
+  create: "新建",
+  update: "修改",
+  close: "平仓",
+  reopen: "重新打开",
+  delete: "删除",
+};
+
+// 对比前后两版交易列表，得到逐笔变更（用于写库、变更日志与撤销说明）
+function diffTrades(prev: Trade[], next: Trade[]): TradeChange[] {
+  const before = new Map(prev.map((t) => [t.id, t]));
+  const after = new Set(next.map((t) => t.id));
+  const out: TradeChange[] = [];
+  next.forEach((t) => {
+    const p = before.get(t.id);
+    if (!p) return out.push({ op: "create", after: t });
+    if (p === t || JSON.stringify(p) === JSON.stringify(t)) return;
+    const op = p.status === "open" && t.status === "closed" ? "close" : p.status === "closed" && t.status === "open" ? "reopen" : "update";
+    out.push({ op, before: p, after: t });
+  });
+  prev.forEach((t) => {
+    if (!after.has(t.id)) out.push({ op: "delete", before: t });
+  });
+  return out;
+}
+
+function describeChanges(c: TradeChange[]) {
+  if (c.length === 1) return `${CHANGE_LABEL[c[0].op]} ${(c[0].after || c[0].before)!.symbol}`;
+  return `${c.length} 笔交易变更`;
+}
+
+// 编辑表单可改的字段及显示名
+const EDIT_FIELDS: Record<string, string> = {
+  symbol: "代码",
+  name: "名称",
+  industry: "行业",
+  timeframe: "周期",
+  side: "方向",
+  entry: "入场价",
+  stop: "止损",
+  target: "目标",
+  feePct: "手续费%",
+  exitFeePct: "平仓费%",
+  slippage: "滑点",
+  instrument: "品种",
+  multiplier: "合约乘数",
+  tickSize: "最小变动价位",
+  contractFee: "每张佣金",
+  fees: "费用方案",
+  marginPct: "保证金%",
+  trigger: "触发价",
+  expiresAt: "到期",
+  planQty: "计划数量",
+  score: "得分",
+  checklist: "清单",
+  tags: "标签",
+  notes: "备注",
+  status: "状态",
+};
+
+function diffEdit(before: Trade, after: Trade): TradeEdit["changes"] {
+  return Object.keys(EDIT_FIELDS)
+    .filter((k) => JSON.stringify((before as any)[k] ?? "") !== JSON.stringify((after as any)[k] ?? ""))
+    .map((k) => ({ field: k, from: (before as any)[k], to: (after as any)[k] }));
+}
+
+function fmtEditValue(v: any) {
+  if (v === undefined || v === null || v === "") return "空";
+  if (Array.isArray(v)) return v.join("、") || "空";
+  if (typeof v === "object" && Array.isArray(v.components)) return v.name;
+  if (typeof v === "object") return `${Object.values(v).filter(Boolean).length} 项勾选`;
+  return String(v);
+}
+
+function changedFields(before?: Trade, after?: Trade) {
+  if (!before || !after) return [];
+  const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+  return keys.filter((k) => k !== "updatedAt" && JSON.stringify((before as any)[k]) !== JSON.stringify((after as any)[k]));
+}
+
+function downloadJSON(data: any, filename: string) {
+  downloadBlob(new Blob([JSON.stringify(data, null, 2)], { type: "application/json" }), filename);
+}
+
+function downloadCSV(rows: CSVCell[][], filename: string) {
+  downloadBlob(new Blob([toCSV(rows)], { type: "text/csv;charset=utf-8" }), filename);
+}
+
+function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
+
+// 报表导出：时间写成 Excel 能识别的 YYYY-MM-DD HH:mm
+function csvTime(ts?: number) {
+  if (!ts) return "";
+  const d = new Date(ts);
+  return `${dateInput(ts)} ${String(d.getHours()).padStart(2, "0")}:${String(d.getMinutes()).padStart(2, "0")}`;
+}
+
+function firstEntryAt(t: Trade) {
+  const entries = (t.fills || []).filter((f) => f.kind === "entry");
+  return entries.length ? Math.min(...entries.map((f) => f.ts)) : undefined;
+}
+
+// 交易明细：一笔交易一行，金额均为交易所在账户的币种
+function tradeCSVRows(list: Trade[], settings: { accounts: Account[]; models: ScoreModel[]; mistakes?: MistakeType[] }): CSVCell[][] {
+  const head = [
+    "账户", "币种", "代码", "名称", "行业", "品种", "方向", "状态", "模型", "周期", "得分",
+    "开仓时间", "平仓时间", "计划入场", "初始止损", "目标", "数量", "乘数", "开仓均价", "平仓均价",
+    "费用", "已实现盈亏", "R", "标签", "遵守计划", "离场原因", "错误", "复盘心得", "备注",
+  ];
+  const rows = list.map((t) => {
+    const L = calcLedger(t);
+    const rv = t.review;
+    return [
+      findAccount(settings.accounts, t.account).name,
+      t.currency,
+      t.symbol,
+      t.name,
+      t.industry,
+      INSTRUMENT_LABEL[t.instrument || "stock"],
+      t.side === "long" ? "做多" : "做空",
+      STATUS_LABEL[t.status],
+      tradeModel(t, settings.models).name,
+      t.timeframe === "mid" ? "中线" : "波段",
+      t.score,
+      csvTime(firstEntryAt(t)),
+      t.status === "closed" ? csvTime(closedAt(t)) : "",
+      t.entry || undefined,
+      t.stop || undefined,
+      t.target,
+      L.entryQty || undefined,
+      mult(t),
+      L.entryQty ? +L.avgEntry.toFixed(6) : undefined,
+      L.exitQty ? +L.avgExit.toFixed(6) : undefined,
+      L.fees ? +L.fees.toFixed(2) : undefined,
+      typeof t.pnl === "number" ? +t.pnl.toFixed(2) : undefined,
+      typeof t.r === "number" && hasR(t) && t.status === "closed" ? +t.r.toFixed(2) : undefined,
+      (t.tags || []).join(" "),
+      rv ? (rv.followedPlan ? "是" : "否") : "",
+      rv ? EXIT_REASON_LABEL[rv.exitReason] : "",
+      rv ? rv.mistakes.map((id) => (settings.mistakes || []).find((m) => m.id === id)?.label || id).join(" ") : "",
+      rv?.lesson,
+      t.notes,
+    ];
+  });
+  return [head, ...rows];
+}
+
+// 成交明细：一笔成交一行，按时间排序，便于对账与报税
+function fillCSVRows(list: Trade[], accounts: Account[]): CSVCell[][] {
+  const head = ["成交时间", "账户", "币种", "代码", "名称", "买卖", "开/平", "价格", "数量", "乘数", "成交额", "费用", "备注"];
+  const rows = list
+    .flatMap((t) => (t.fills || []).map((f) => ({ t, f })))
+    .sort((a, b) => a.f.ts - b.f.ts)
+    .map(({ t, f }) => [
+      csvTime(f.ts),
+      findAccount(accounts, t.account).name,
+      t.currency,
+      t.symbol,
+      t.name,
+      fillSide(t.side, f.kind) === "buy" ? "买入" : "卖出",
+      f.kind === "entry" ? "开仓" : "平仓",
+      f.price,
+      f.qty,
+      mult(t),
+      +(f.price * f.qty * mult(t)).toFixed(2),
+      +f.fee.toFixed(2),
+      f.planned ? "计划价，未核对" : "",
+    ]);
+  return [head, ...rows];
+}
+
+// 复盘报告周期：YYYY-MM（月）或 YYYY-Qn（季度）
+function quarterKey(ts: number) {
+  const d = new Date(ts);
+  return `${d.getFullYear()}-Q${Math.floor(d.getMonth() / 3) + 1}`;
+}
+
+function periodRange(key: string) {
+  const q = key.match(/^(\d{4})-Q([1-4])$/);
+  if (q) {
+    const y = Number(q[1]);
+    const m = (Number(q[2]) - 1) * 3;
+    return { from: new Date(y, m, 1).getTime(), to: new Date(y, m + 3, 1).getTime(), label: `${y} 年第 ${q[2]} 季度` };
+  }
+  const [y, m] = key.split("-").map(Number);
+  return { from: new Date(y, m - 1, 1).getTime(), to: new Date(y, m, 1).getTime(), label: `${y} 年 ${m} 月` };
+}
+
+function reportPeriods(trades: Trade[]) {
+  const closed = trades.filter((t) => t.status === "closed").map(closedAt);
+  const desc = (a: string, b: string) => (a < b ? 1 : -1);
+  return {
+    month: Array.from(new Set(closed.map((ts) => periodKey(ts, "month")))).sort(desc),
+    quarter: Array.from(new Set(closed.map(quarterKey))).sort(desc),
+  };
+}
+
+type BrokerAction = "duplicate" | "planned" | "entry" | "exit" | "new" | "unmatched";
+
+const BROKER_ACTION_LABEL: Record<BrokerAction, string> = {
+  duplicate: "重复（已导入）",
+  planned: "匹配计划（替换计划成交）",
+  entry: "加仓",
+  exit: "减/平仓",
+  new: "新建交易",
+  unmatched: "未匹配（无对应持仓）",
+};
+
+// 券商成交逐笔归入交易：指纹重复的跳过；买入优先匹配同标的、同日创建的持仓计划，卖出按先开先平平掉同标的持仓
+function planBrokerImport(
+  trades: Trade[],
+  fills: BrokerFill[],
+  defaults: Pick<Trade, "account" | "currency" | "multiplier" | "fees" | "equity" | "maxRiskPct" | "lotSize" | "feePct" | "exitFeePct" | "slippage" | "model" | "modelSnapshot">
+) {
+  let work = trades.slice();
+  const fps = new Set(work.flatMap((t) => (t.fills || []).map((f) => f.fp).filter(Boolean)));
+  const plan: { f: BrokerFill; action: BrokerAction; tradeId?: string }[] = [];
+  const now = Date.now();
+
+  const put = (t: Trade) => {
+    const next = applyLedger({ ...t, updatedAt: now });
+    work = work.some((x) => x.id === t.id) ? work.map((x) => (x.id === t.id ? next : x)) : [next, ...work];
+  };
+  const toFill = (f: BrokerFill, kind: FillKind): Fill => ({ id: uid(), kind, price: f.price, qty: f.qty, ts: f.ts, fee: f.fee, fp: f.fp });
+  const sameDay = (a: number, b: number) => new Date(a).toDateString() === new Date(b).toDateString();
+
+  for (const f of fills) {
+    if (fps.has(f.fp)) {
+      plan.push({ f, action: "duplicate" });
+      continue;
+    }
+    fps.add(f.fp);
+
+    const holding = (side: Side) =>
+      work
+        .filter((t) => t.account === defaults.account && t.symbol === f.symbol && t.side === side && t.status === "open" && calcLedger(t).openQty > 0)
+        .sort((a, b) => a.createdAt - b.createdAt);
+
+    // 平仓：卖出平多、买入平空；数量超过最早一笔的持仓时按先进先出拆到后面的持仓，费用按数量分摊
+    const closing = holding(f.side === "sell" ? "long" : "short");
+    if (closing.length) {
+      let rest = f.qty;
+      for (const t of closing) {
+        if (rest <= 1e-9) break;
+        const q = Math.min(rest, calcLedger(t).openQty);
+        const part = { ...f, qty: q, fee: f.fee * (q / f.qty) };
+        put({ ...t, fills: [...t.fills, toFill(part, "exit")] });
+        plan.push({ f: part, action: "exit", tradeId: t.id });
+        rest -= q;
+      }
+      if (rest > 1e-9) plan.push({ f: { ...f, qty: rest, fee: f.fee * (rest / f.qty) }, action: "unmatched" });
+      continue;
+    }
+    if (f.side === "sell") {
+      plan.push({ f, action: "unmatched" });
+      continue;
+    }
+
+    // 开仓：同标的做多计划（含尚未触发的计划单），同日创建的优先，其次最近一笔尚未平仓的
+    const cands = work
+      .filter((t) => t.account === defaults.account && t.symbol === f.symbol && t.side === "long" && (t.status === "open" || t.status === "planned") && t.createdAt <= f.ts + 86400000)
+      .sort((a, b) => b.createdAt - a.createdAt);
+    const t = cands.find((x) => sameDay(x.createdAt, f.ts)) || cands[0];
+    if (t) {
+      // 计划保存时按计划价记了一笔开仓，首次匹配到真实成交时替换掉
+      const plannedOnly = t.fills.every((x) => x.kind === "entry" && !x.fp);
+      put({ ...t, fills: [...(plannedOnly ? [] : t.fills), toFill(f, "entry")] });
+      plan.push({ f, action: plannedOnly ? "planned" : "entry", tradeId: t.id });
+      continue;
+    }
+
+    const id = uid();
+    put({
+      ...defaults,
+      id,
+      createdAt: f.ts,
+      updatedAt: now,
+      symbol: f.symbol,
+      name: f.name,
+      timeframe: "mid",
+      side: "long",
+      entry: f.price,
+      stop: 0,
+      size: 0,
+      positionPct: 0,
+      score: 0,
+      checklist: {},
+      tags: ["券商导入"],
+      notes: "由券商成交单导入，请补充止损与模型。",
+      status: "open",
+      fills: [toFill(f, "entry")],
+    });
+    plan.push({ f, action: "new", tradeId: id });
+  }
+
+  return { plan, trades: work };
+}
+
+export default function TradingConsole() {
+  const [settings, setSettings] = useState(() => ({
+    maxRiskPct: 1.0,
+
+    // 账户：各自的币种、权益、手数与默认成本；合并视图按汇率折算为基准币
+    accounts: [{ ...DEFAULT_ACCOUNT, feeSchedule: "cn_a" }] as Account[],
+    baseCurrency: "CNY",
+    fx: {} as Record<string, number>, // 1 单位外币 = ? 基准币
+
+    // 组合风控（0 = 不限）
+    maxHeatPct: 6,       // 全部持仓的止损风险合计占权益%
+    maxPositions: 8,
+    maxIndustryPct: 40,  // 单一行业名义敞口占权益%
+    maxSymbolPct: 25,    // 单一标的名义敞口占权益%
+
+    // 行情源
+    quoteSource: "manual" as "manual" | "http",
+    quoteUrl: "http://localhost:8787/quotes",
+    quoteRefreshSec: 0,  // 自动刷新间隔（秒），0 = 只手动刷新
+    staleMin: 30,        // 报价超过多少分钟视为过期
+
+    // 止损/目标提醒
+    alertNearPct: 1,     // 距止损/目标不足该百分比时提醒，0 = 只在触及时提醒
+    browserNotify: false,
+
+    csvPresets: [] as MappingPreset[], // 自定义券商列映射预设
+    mistakes: DEFAULT_MISTAKES,         // 复盘用的错误类型（可在设置里增删改名）
+    feeSchedules: [] as FeeSchedule[],  // 自定义费用方案（内置方案见 FEE_PRESETS）
+    replay: DEFAULT_REPLAY,             // 替代离场回放参数
+
+    models: DEFAULT_MODELS, // 评分模型（可在设置里编辑，保存即升版本）
+  }));
+
+  const [trades, setTrades] = useState<Trade[]>([]);
+  const [quotes, setQuotes] = useState<Record<string, Quote>>({});
+  const [quoteErr, setQuoteErr] = useState("");
+  const [alerts, setAlerts] = useState<AlertRecord[]>([]);
+  const [cashflows, setCashflows] = useState<CashFlow[]>([]);
+  const [backups, setBackups] = useState<Backup[]>([]);
+  const [trash, setTrash] = useState<TrashItem[]>([]);
+
+  // 存储：优先 IndexedDB，不可用时退回 localStorage 整包保存
+  const dbRef = useRef<IDBDatabase | null>(null);
+  const [ready, setReady] = useState(false);
+  const prevTrades = useRef<Trade[]>([]);
+  const histSource = useRef<"" | "undo" | "redo" | "auto">("");
+  const [undoStack, setUndoStack] = useState<{ label: string; trades: Trade[] }[]>([]);
+  const [redoStack, setRedoStack] = useState<{ label: string; trades: Trade[] }[]>([]);
+  const [history, setHistory] = useState<{ id: string; list: ChangeRecord[] } | null>(null);
+  const [tab, setTab] = useState<"dashboard" | "new" | "log" | "review" | "backtest" | "import" | "settings">("dashboard");
+  const [period, setPeriod] = useState<"month" | "week">("month");
+  const [filter, setFilter] = useState<TradeFilter>(EMPTY_FILTER);
+  const [sort, setSort] = useState<{ key: SortKey; desc: boolean }>({ key: "date", desc: true });
+  const [page, setPage] = useState(0);
+  const [groupDim, setGroupDim] = useState<GroupDim>("model");
+  const [calibModel, setCalibModel] = useState<ModelType>("trend");
+  const [modelDraft, setModelDraft] = useState<ScoreModel | null>(null);
+  const [feeDraft, setFeeDraft] = useState<FeeSchedule | null>(null);
+
+  // draft
+  const [draft, setDraft] = useState(() => ({
+    account: settings.accounts[0].id,
+    symbol: "",
+    name: "",
+    industry: "",
+    model: "trend" as ModelType,
+    timeframe: "mid" as "mid" | "swing",
+
+    side: "long" as Side,
+
+    entry: 0,
+    stop: 0,
+    target: 0,
+    trigger: 0,
+    expiry: "", // 计划到期日 YYYY-MM-DD
+
+    feePct: settings.accounts[0].feePct,
+    exitFeePct: settings.accounts[0].exitFeePct,
+    slippage: settings.accounts[0].slippage,
+
+    instrument: "stock" as Instrument,
+    multiplier: INSTRUMENT_DEFAULTS.stock.multiplier, // 股票不用账户乘数（与切换账户一致）
+    tickSize: INSTRUMENT_DEFAULTS.stock.tickSize,
+    contractFee: 0,
+    marginPct: 100,
+    feeSchedule: settings.accounts[0].feeSchedule || "",
+
+    checklist: makeChecklist(findModel(settings.models, "trend")),
+    tags: [] as string[],
+    notes: "",
+  }));
+
+
+  const [editId, setEditId] = useState<string | null>(null);
+
+  // 成交明细（展开行）
+  const [fillFor, setFillFor] = useState<string | null>(null);
+  const [fillDraft, setFillDraft] = useState(() => ({ kind: "exit" as FillKind, price: 0, qty: 0, fee: "" }));
+
+  // 止损调整（展开行）
+  const [stopFor, setStopFor] = useState<string | null>(null);
+  // 复盘与交易日志（展开行）
+  const [reviewFor, setReviewFor] = useState<string | null>(null);
+  const [reviewDraft, setReviewDraft] = useState<Omit<TradeReview, "ts">>(() => ({ followedPlan: true, exitReason: "stop", emotion: 3, mistakes: [], lesson: "" }));
+  const [journalText, setJournalText] = useState("");
+
+  // 附件：新建计划时先暂存，保存后写入 IndexedDB；缩略图按需读出
+  const [draftFiles, setDraftFiles] = useState<File[]>([]);
+  const [fileUrls, setFileUrls] = useState<Record<string, string>>({});
+  const [lightbox, setLightbox] = useState<Attachment | null>(null);
+  const [reportKind, setReportKind] = useState<"month" | "quarter">("month");
+  const [report, setReport] = useState(""); // 正在查看的复盘报告周期，空 = 未打开
+  const [bars, setBars] = useState<Record<string, Bar[]>>({}); // 历史日线，按代码（大写）存放
+
+  const [stopDraft, setStopDraft] = useState(() => ({ mode: "breakeven" as StopMode, price: 0, ref: 0, pct: 8, atrText: "", atrN: 14, atrK: 2 }));
+
+  const fileRef = useRef<HTMLInputElement | null>(null);
+
+  // load/save
+  useEffect(() => {
+    function apply(data: any, trash: TrashItem[] = [], backups: Backup[] = []) {
+      const list: Trade[] = Array.isArray(data.trades) ? data.trades : [];
+      if (data.settings) setSettings((s) => ({ ...s, ...data.settings }));
+      if (data.quotes) setQuotes(data.quotes);
+      if (Array.isArray(data.alerts)) setAlerts(data.alerts);
+      if (Array.isArray(data.cashflows)) setCashflows(data.cashflows);
+      // 超过保留期的回收站记录直接清掉
+      setTrash(trash.filter((x) => Date.now() - x.deletedAt < TRASH_DAYS * 86400000));
+      setBackups(backups);
+      prevTrades.current = list;
+      setTrades(list);
+    }
+
+    function readLocal(raw: string | null) {
+      if (!raw) return {};
+      try {
+        return migrate(JSON.parse(raw));
+      } catch (e: any) {
+        // 读不出来时原样另存，避免随后的自动保存把它覆盖掉
+        localStorage.setItem(`${LS_KEY}_broken_${Date.now()}`, raw);
+        alert(`本地数据读取失败，原始数据已另存为备份键：${e?.message || e}`);
+        return {};
+      }
+    }
+
+    function localBackups(): Backup[] {
+      try {
+        return JSON.parse(localStorage.getItem(BACKUP_KEY) || "[]");
+      } catch {
+        return [];
+      }
+    }
+
+    (async () => {
+      let db: IDBDatabase | null = null;
+      try {
+        db = await openDB();
+      } catch {
+        db = null;
+      }
+
+      if (!db) {
+        const data: any = readLocal(localStorage.getItem(LS_KEY));
+        apply(data, data.trash || [], localBackups());
+        setReady(true);
+        return;
+      }
+
+      try {
+        const meta = await idbGet<{ schema: number; migratedAt?: number }>(db, "kv", "meta");
+        const raw = localStorage.getItem(LS_KEY);
+
+        if (!meta) {
+          // 一次性从 localStorage 迁入；原数据改名保留一份
+          const data: any = readLocal(raw);
+          await idbWrite(db, ["kv", "trades"], (tx) => {
+            const kv = tx.objectStore("kv");
+            kv.put({ schema: SCHEMA_VERSION, migratedAt: Date.now() }, "meta");
+            if (data.settings) kv.put(data.settings, "settings");
+            if (data.quotes) kv.put(data.quotes, "quotes");
+            if (data.alerts) kv.put(data.alerts, "alerts");
+            if (data.cashflows) kv.put(data.cashflows, "cashflows");
+            kv.put(localBackups(), "backups");
+            (data.trades || []).forEach((t: Trade) => tx.objectStore("trades").put(t));
+          });
+          if (raw) {
+            localStorage.setItem(`${LS_KEY}_migrated`, raw);
+            localStorage.removeItem(LS_KEY);
+          }
+          localStorage.removeItem(BACKUP_KEY);
+        } else if (meta.schema < SCHEMA_VERSION) {
+          // 库里的数据按同一条迁移链升级
+          const settings = await idbGet(db, "kv", "settings");
+          const data = migrate({ schema: meta.schema, settings, trades: await idbGetAll<Trade>(db, "trades") });
+          await idbWrite(db, ["kv", "trades"], (tx) => {
+            tx.objectStore("kv").put({ ...meta, schema: SCHEMA_VERSION }, "meta");
+            if (data.settings) tx.objectStore("kv").put(data.settings, "settings");
+            data.trades.forEach((t: Trade) => tx.objectStore("trades").put(t));
+          });
+        }
+
+        const trades = (await idbGetAll<Trade>(db, "trades")).sort((a, b) => b.createdAt - a.createdAt);
+        const trash = await idbGetAll<TrashItem>(db, "trash");
+        const expired = trash.filter((x) => Date.now() - x.deletedAt >= TRASH_DAYS * 86400000);
+        if (expired.length) await idbWrite(db, ["trash"], (tx) => expired.forEach((x) => tx.objectStore("trash").delete(x.id)));
+
+        // 交易、回收站与自动备份都不再引用的附件（删掉的附件、彻底删除的交易）在启动时清理；会话内保留以便撤销
+        const backups = (await idbGet<Backup[]>(db, "kv", "backups")) || [];
+        const backupTrades: Trade[] = backups.flatMap((b) => (Array.isArray(b.data?.trades) ? b.data.trades : []));
+        const used = new Set(
+          [...trades, ...trash.filter((x) => !expired.includes(x)).map((x) => x.trade), ...backupTrades].flatMap((t) => (t?.attachments || []).map((a) => a.id))
+        );
+        const orphans = (await idbKeys(db, "files")).filter((k) => !used.has(String(k)));
+        if (orphans.length) await idbWrite(db, ["files"], (tx) => orphans.forEach((k) => tx.objectStore("files").delete(k)));
+
+        apply(
+          {
+            settings: await idbGet(db, "kv", "settings"),
+            quotes: await idbGet(db, "kv", "quotes"),
+            alerts: await idbGet(db, "kv", "alerts"),
+            cashflows: await idbGet(db, "kv", "cashflows"),
+            trades,
+          },
+          trash,
+          backups
+        );
+        const saved = await idbGetAll<{ symbol: string; bars: Bar[] }>(db, "bars");
+        setBars(saved.reduce((m, x) => ({ ...m, [x.symbol]: x.bars }), {} as Record<string, Bar[]>));
+        dbRef.current = db;
+      } catch (e: any) {
+        alert(`读取本地数据库失败：${e?.message || e}`);
+        return;
+      }
+      setReady(true);
+    })();
+  }, []);
+
+  // 没有 IndexedDB 时整体写 localStorage
+  useEffect(() => {
+    if (!ready || dbRef.current) return;
+    localStorage.setItem(LS_KEY, JSON.stringify({ schema: SCHEMA_VERSION, settings, trades, quotes, alerts, cashflows, trash }));
+    localStorage.setItem(BACKUP_KEY, JSON.stringify(backups));
+  }, [ready, settings, quotes, alerts, cashflows, backups, trades, trash]);
+
+  // 非交易状态：按 key 整体写入（交易与回收站由下面按差异写库）
+  useEffect(() => {
+    if (!ready) return;
+    const db = dbRef.current;
+    if (!db) return;
+    idbWrite(db, ["kv"], (tx) => {
+      const kv = tx.objectStore("kv");
+      kv.put(settings, "settings");
+      kv.put(quotes, "quotes");
+      kv.put(alerts, "alerts");
+      kv.put(cashflows, "cashflows");
+      kv.put(backups, "backups");
+    }).catch((e) => alert(`保存失败：${e?.message || e}`));
+  }, [ready, settings, quotes, alerts, cashflows, backups]);
+
+  // 交易：按差异逐条写库、追加变更日志、删除进回收站，并记录撤销点
+  useEffect(() => {
+    if (!ready) return;
+    const prev = prevTrades.current;
+    prevTrades.current = trades;
+    const changes = diffTrades(prev, trades);
+    if (!changes.length) return;
+
+    const source = histSource.current;
+    histSource.current = "";
+    // 自动变更（计划过期等）不进撤销栈
+    if (!source) {
+      setUndoStack((x) => [...x.slice(-49), { label: describeChanges(changes), trades: prev }]);
+      setRedoStack([]);
+    }
+
+    const now = Date.now();
+    const added = new Set(changes.filter((c) => c.after).map((c) => c.after!.id));
+    const removed = changes.filter((c) => c.op === "delete").map((c) => ({ id: c.before!.id, trade: c.before!, deletedAt: now }));
+    setTrash((x) => [...removed, ...x.filter((y) => !added.has(y.id) && !removed.some((r) => r.id === y.id))]);
+
+    const db = dbRef.current;
+    if (!db) return;
+    idbWrite(db, ["trades", "changes", "trash"], (tx) => {
+      changes.forEach((c) => {
+        const id = (c.after || c.before)!.id;
+        if (c.after) {
+          tx.objectStore("trades").put(c.after);
+          tx.objectStore("trash").delete(id);
+        } else {
+          tx.objectStore("trades").delete(id);
+          tx.objectStore("trash").put({ id, trade: c.before, deletedAt: now });
+        }
+        tx.objectStore("changes").add({ tradeId: id, ts: now, op: c.op, source: source || "edit", before: c.before, after: c.after });
+      });
+    }).catch((e) => alert(`保存失败：${e?.message || e}`));
+  }, [ready, trades]);
+
+  function undo() {
+    const last = undoStack[undoStack.length - 1];
+    if (!last) return;
+    histSource.current = "undo";
+    setUndoStack((x) => x.slice(0, -1));
+    setRedoStack((x) => [...x, { label: last.label, trades }]);
+    setTrades(last.trades);
+  }
+
+  function redo() {
+    const last = redoStack[redoStack.length - 1];
+    if (!last) return;
+    histSource.current = "redo";
+    setRedoStack((x) => x.slice(0, -1));
+    setUndoStack((x) => [...x, { label: last.label, trades }]);
+    setTrades(last.trades);
+  }
+
+  function restoreTrash(id: string) {
+    const item = trash.find((x) => x.id === id);
+    if (!item) return;
+    setTrades((x) => [item.trade, ...x.filter((t) => t.id !== id)]);
+  }
+
+  function purgeTrash(id: string) {
+    if (!confirm("彻底删除后无法恢复，确定？")) return;
+    setTrash((x) => x.filter((y) => y.id !== id));
+    const db = dbRef.current;
+    if (db) idbWrite(db, ["trash"], (tx) => tx.objectStore("trash").delete(id)).catch((e) => alert(`删除失败：${e?.message || e}`));
+  }
+
+  async function toggleHistory(id: string) {
+    if (history?.id === id) return setHistory(null);
+    // localStorage 模式下没有变更日志，只显示交易自带的编辑记录
+    const db = dbRef.current;
+    let list: ChangeRecord[] = [];
+    try {
+      if (db) list = await idbByIndex<ChangeRecord>(db, "changes", "tradeId", id);
+    } catch (e: any) {
+      return alert(`读取变更记录失败：${e?.message || e}`);
+    }
+    setHistory({ id, list: list.sort((a, b) => b.ts - a.ts) });
+  }
+
+  // 编辑已有交易时沿用其模型快照，不随当前模型版本重新打分
+  const editTrade = editId ? trades.find((t) => t.id === editId) : undefined;
+  // 编辑尚未成交的观察/计划：可改触发价、到期日，计划数量按当前风控重算
+  const editPending = !!editTrade && (editTrade.status === "watch" || editTrade.status === "planned");
+  const model = editTrade ? tradeModel(editTrade, settings.models) : findModel(settings.models, draft.model);
+  const items = model.items;
+  const s = useMemo(() => score(model, draft.checklist), [model, draft.checklist]);
+  const ledgers = useMemo(
+    () => new Map(settings.accounts.map((a) => [a.id, calcAccountLedger(a, trades, cashflows)])),
+    [settings.accounts, trades, cashflows]
+  );
+  const acct = findAccount(settings.accounts, draft.account);
+  // 仓位按账户选定口径的权益计算（默认为账本权益：期初 + 出入金 + 已实现盈亏）
+  const acctEq = sizingEquity(acct, ledgers.get(acct.id) || { current: acct.equity, peak: acct.equity });
+  // 组合风控按账户各自的权益与持仓计算
+  const portfolio = useMemo(() => calcPortfolio(trades.filter((t) => t.account === acct.id)), [trades, acct.id]);
+  const availMargin = acctEq - portfolio.margin;
+  const draftMult = Number(draft.multiplier) || 1;
+  const allSchedules = useMemo(() => [...FEE_PRESETS, ...(settings.feeSchedules || [])], [settings.feeSchedules]);
+  const draftFees = draft.feeSchedule ? findSchedule(allSchedules, draft.feeSchedule) : undefined;
+  const sizing = useMemo(
+   () => 
+     calcSizing(
+       acctEq,
+       settings.maxRiskPct,
+       Number(draft.entry),
+       Number(draft.stop),
+       acct.lotSize,
+       draft.side,
+       Number(draft.feePct),
+       Number(draft.exitFeePct),
+       Number(draft.slippage),
+       draftMult,
+       { contractFee: Number(draft.contractFee), marginPct: Number(draft.marginPct), availMargin, fees: draftFees }
+      ),
+    [
+      acct,
+      acctEq,
+      settings.maxRiskPct,
+      draft.entry,
+      draft.stop,
+      draft.side,
+      draft.feePct,
+      draft.exitFeePct,
+      draft.slippage,
+      draftMult,
+      draft.contractFee,
+      draft.marginPct,
+      availMargin,
+      draftFees,
+    ]
+  );
+
+  const limitCheck = useMemo(
+    () =>
+      checkLimits(portfolio, settings, acctEq, {
+        symbol: draft.symbol,
+        industry: draft.industry,
+        entry: Number(draft.entry) * draftMult,
+        riskPer: sizing.riskPer * draftMult,
+        size: sizing.size,
+        lotSize: acct.lotSize,
+      }),
+    [portfolio, settings, acct, acctEq, draft.symbol, draft.industry, draft.entry, sizing]
+  );
+  
+  // 一进一出按费用方案逐项汇总，便于核对最低佣金、印花税等
+  const feePreview = useMemo(() => {
+    if (!draftFees || !(limitCheck.cap > 0)) return null;
+    const units = limitCheck.cap * draftMult;
+    const open = calcFee(draftFees, fillSide(draft.side, "entry"), Number(draft.entry), units);
+    const close = calcFee(draftFees, fillSide(draft.side, "exit"), Number(draft.stop), units);
+    const parts = new Map<string, number>();
+    [...open.parts, ...close.parts].forEach((p) => parts.set(p.name, (parts.get(p.name) || 0) + p.amount));
+    return {
+      name: draftFees.name,
+      parts: Array.from(parts.entries()).map(([name, amount]) => ({ name, amount })),
+      total: open.total + close.total,
+    };
+  }, [draftFees, limitCheck, draftMult, draft.side, draft.entry, draft.stop]);
+
+  function resetDraft() {
+    const a = findAccount(settings.accounts, draft.account);
+    setDraftFiles([]);
+    setDraft({
+      account: a.id,
+      symbol: "",
+      name: "",
+      industry: "",
+      model: "trend",
+      timeframe: "mid",
+      side: "long",
+      entry: 0,
+      stop: 0,
+      target: 0,
+      trigger: 0,
+      expiry: "",
+      feePct: a.feePct,
+      exitFeePct: a.exitFeePct,
+      slippage: a.slippage,
+      instrument: "stock",
+      multiplier: INSTRUMENT_DEFAULTS.stock.multiplier,
+      tickSize: INSTRUMENT_DEFAULTS.stock.tickSize,
+      contractFee: 0,
+      marginPct: 100,
+      feeSchedule: a.feeSchedule || "",
+      checklist: makeChecklist(findModel(settings.models, "trend")),
+      tags: [],
+      notes: "",
+    });
+  }
+
+  function draftError() {
+    if (!draft.symbol.trim()) return "请填写股票代码/标的。";
+    if (!draft.stop || draft.stop <= 0) return "止损价必填（无止损不允许下单）。";
+    if (!draft.entry || draft.entry <= 0) return "入场价必填。";
+
+    // ===== 多空方向止损逻辑校验 =====
+    if (draft.side === "short" && Number(draft.stop) <= Number(draft.entry)) {
+      return "做空时止损一般应高于入场价（stop > entry）。";
+    }
+    if (draft.side === "long" && Number(draft.stop) >= Number(draft.entry)) {
+      return "做多时止损一般应低于入场价（stop < entry）。";
+    }
+    // ==============================
+
+    // 期货/期权价格需落在最小变动价位上
+    const tick = Number(draft.tickSize);
+    if (draft.instrument !== "stock" && tick > 0) {
+      const off = [Number(draft.entry), Number(draft.stop), Number(draft.target) || 0].find((x) => Math.abs(x / tick - Math.round(x / tick)) > 1e-6);
+      if (off !== undefined) return `价格 ${off} 不是最小变动价位 ${tick} 的整数倍。`;
+    }
+    if (!(draftMult > 0)) return "合约乘数必须大于 0。";
+    return "";
+  }
+
+  // 观察只需标的；计划与开仓走完整校验
+  function planError(status: Status) {
+    if (status === "watch") return draft.symbol.trim() ? "" : "请填写股票代码/标的。";
+    const err = draftError();
+    if (err) return err;
+    const exp = draftExpiry();
+    if (status === "planned" && exp && exp < Date.now()) return "计划到期日不能早于今天。";
+    return "";
+  }
+
+  function draftExpiry() {
+    return draft.expiry ? new Date(`${draft.expiry}T23:59:59.999`).getTime() : undefined;
+  }
+
+  function addTrade(status: "watch" | "planned" | "open" = "open") {
+    const err = planError(status);
+    if (err) return alert(err);
+
+    // ===== 组合风控：超限时按上限压缩，压缩后仍不可行则需填写理由 =====
+    let size = limitCheck.cap;
+    let riskOverride: string | undefined;
+    if (status !== "watch" && limitCheck.blocked) {
+      const reason = prompt(
+        `超出组合风控限制：\n${limitCheck.breaches.join("\n")}\n\n如确需保存，请输入理由（按原建议数量 ${fmt(sizing.size, 0)} 保存）：`
+      );
+      if (!reason || !reason.trim()) return;
+      riskOverride = reason.trim();
+      size = sizing.size;
+    }
+
+    const now = Date.now();
+    const base = {
+      side: draft.side,
+      fees: draftFees,
+      feePct: Number(draft.feePct),
+      exitFeePct: Number(draft.exitFeePct),
+      slippage: Number(draft.slippage),
+      multiplier: draftMult,
+      contractFee: Number(draft.contractFee) || 0,
+    };
+    const t: Trade = {
+      id: uid(),
+      createdAt: now,
+      updatedAt: now,
+
+      symbol: draft.symbol.trim(),
+      name: draft.name?.trim(),
+      industry: draft.industry?.trim(),
+
+      model: model.id,
+      modelSnapshot: model,
+      timeframe: draft.timeframe,
+
+      side: draft.side,
+      account: acct.id,
+      currency: acct.currency,
+      instrument: draft.instrument,
+      multiplier: draftMult,
+      tickSize: Number(draft.tickSize) || undefined,
+      contractFee: base.contractFee,
+      marginPct: Number(draft.marginPct) || 100,
+      fees: draftFees,
+      feePct: Number(draft.feePct),
+      exitFeePct: Number(draft.exitFeePct),
+      slippage: Number(draft.slippage),
+
+
+      entry: Number(draft.entry),
+      stop: Number(draft.stop),
+      target: draft.target ? Number(draft.target) : undefined,
+      trigger: status !== "open" && draft.trigger ? Number(draft.trigger) : undefined,
+      expiresAt: status === "planned" ? draftExpiry() : undefined, // 观察不会过期，不存到期日
+      planQty: status === "planned" ? size : undefined,
+
+      equity: acctEq,
+      maxRiskPct: settings.maxRiskPct,
+      lotSize: acct.lotSize,
+
+      size,
+      positionPct: acctEq > 0 ? (size * Number(draft.entry) * base.multiplier) / acctEq * 100 : 0,
+      riskOverride,
+
+      score: s,
+      checklist: draft.checklist,
+      tags: draft.tags,
+      notes: draft.notes,
+
+      status,
+      fills: status === "open" && size > 0 ? [{ ...makeFill(base, "entry", Number(draft.entry), size, now), planned: true }] : [],
+    };
+
+    setTrades((x) => [applyLedger(t), ...x]);
+    if (draftFiles.length) attachFiles(t.id, draftFiles, "plan");
+    resetDraft();
+    setTab("log");
+  }
+
+  function startEdit(t: Trade) {
+    setDraft({
+      account: t.account,
+      symbol: t.symbol,
+      name: t.name || "",
+      industry: t.industry || "",
+      model: t.model,
+      timeframe: t.timeframe,
+      side: t.side,
+      entry: t.entry,
+      stop: t.stop,
+      target: t.target || 0,
+      trigger: t.trigger || 0,
+      expiry: dateInput(t.expiresAt),
+      feePct: t.feePct,
+      exitFeePct: t.exitFeePct,
+      slippage: t.slippage,
+      instrument: t.instrument || "stock",
+      multiplier: mult(t),
+      tickSize: t.tickSize || 0,
+      contractFee: t.contractFee || 0,
+      marginPct: t.marginPct ?? 100,
+      feeSchedule: t.fees?.id || "",
+      checklist: { ...makeChecklist(tradeModel(t, settings.models)), ...t.checklist },
+      tags: t.tags || [],
+      notes: t.notes || "",
+    });
+    setEditId(t.id);
+    setTab("new");
+  }
+
+  function cancelEdit() {
+    setEditId(null);
+    resetDraft();
+    setTab("log");
+  }
+
+  // promote：观察转为计划
+  function saveEdit(promote = false) {
+    const t = editTrade;
+    if (!t) return cancelEdit();
+    const status: Status = promote ? "planned" : t.status;
+    const err = status === "watch" || status === "planned" ? planError(status) : draftError();
+    if (err) return alert(err);
+
+    const entry = Number(draft.entry);
+    const next: Trade = {
+      ...t,
+      symbol: draft.symbol.trim(),
+      name: draft.name?.trim(),
+      industry: draft.industry?.trim(),
+      timeframe: draft.timeframe,
+      side: draft.side,
+      feePct: Number(draft.feePct),
+      exitFeePct: Number(draft.exitFeePct),
+      slippage: Number(draft.slippage),
+      instrument: draft.instrument,
+      multiplier: draftMult,
+      tickSize: Number(draft.tickSize) || undefined,
+      contractFee: Number(draft.contractFee) || 0,
+      marginPct: Number(draft.marginPct) || 100,
+      // 方案未换时保留原快照，避免之后修改方案影响已记录的交易
+      fees: draft.feeSchedule === (t.fees?.id || "") ? t.fees : draftFees,
+      entry,
+      stop: Number(draft.stop),
+      target: draft.target ? Number(draft.target) : undefined,
+      score: s,
+      status,
+      checklist: draft.checklist,
+      tags: draft.tags,
+      notes: draft.notes,
+    };
+    // 入场价改了：按计划价生成的开仓成交一并改价并重算费用（手工录入/导入的成交不动）
+    if (entry !== t.entry) {
+      next.fills = t.fills.map((f) => (f.kind === "entry" && f.price === t.entry ? { ...makeFill(next, "entry", entry, f.qty, f.ts), id: f.id, planned: f.planned } : f));
+    }
+
+    // 尚未成交的计划：触发价、到期日与计划数量随编辑更新
+    if (status === "watch" || status === "planned") {
+      next.trigger = draft.trigger ? Number(draft.trigger) : undefined;
+      next.expiresAt = status === "planned" ? draftExpiry() : undefined;
+      next.planQty = status === "planned" ? limitCheck.cap : undefined;
+    }
+
+    const changes = diffEdit(t, next);
+    if (!changes.length) return cancelEdit();
+    const now = Date.now();
+    // pnl/r 由成交明细按新的方向、止损与成本重新推导
+    const saved = applyLedger({ ...next, updatedAt: now, edits: [...(t.edits || []), { ts: now, changes }] });
+    setTrades((x) => x.map((y) => (y.id === t.id ? saved : y)));
+    setEditId(null);
+    resetDraft();
+    setTab("log");
+  }
+
+  // 重新打开：撤掉最后一笔平仓成交，恢复为持仓
+  function reopenTrade(id: string) {
+    const t = trades.find((x) => x.id === id);
+    if (!t || t.status !== "closed") return;
+    const last = [...t.fills].sort((a, b) => b.ts - a.ts).find((f) => f.kind === "exit");
+    if (!last) return;
+    if (!confirm(`重新打开将撤掉最后一笔平仓成交（${fmt(last.price, 3)} × ${fmt(last.qty, 0)}），确定？`)) return;
+    const now = Date.now();
+    setTrades((x) =>
+      x.map((y) => {
+        if (y.id !== id) return y;
+        const next = applyLedger({ ...y, fills: y.fills.filter((f) => f.id !== last.id), updatedAt: now });
+        return { ...next, edits: [...(y.edits || []), { ts: now, changes: diffEdit(y, next) }] };
+      })
+    );
+  }
+
+  function delTrade(id: string) {
+    if (!confirm(`确定删除这笔交易？可在回收站保留 ${TRASH_DAYS} 天。`)) return;
+    setTrades((x) => x.filter((t) => t.id !== id));
+  }
+
+  function closeTrade(id: string) {
+    const t = trades.find((x) => x.id === id);
+    if (!t) return;
+    const L = calcLedger(t);
+    if (L.openQty <= 0) return alert("该笔交易没有剩余持仓。");
+
+    const exitStr = prompt(`输入平仓价（平掉剩余 ${fmt(L.openQty, 0)}）：`);
+    if (!exitStr) return;
+    const exit = Number(exitStr);
+    if (!exit || exit <= 0) return alert("平仓价无效。");
+
+    const next = applyLedger({ ...t, fills: [...t.fills, makeFill(t, "exit", exit, L.openQty)], updatedAt: Date.now() });
+    setTrades((x) => x.map((y) => (y.id === id ? next : y)));
+    openReview(next);
+  }
+
+  // 计划触发：按实际成交价与数量记一笔开仓，转为持仓
+  function triggerPlan(id: string) {
+    const t = trades.find((x) => x.id === id);
+    if (!t || t.status !== "planned") return;
+    const priceStr = prompt("实际成交价：", String(t.trigger || t.entry));
+    if (!priceStr) return;
+    const price = Number(priceStr);
+    if (!(price > 0)) return alert("成交价无效。");
+    const qtyStr = prompt("成交数量：", String(t.planQty || ""));
+    if (!qtyStr) return;
+    const qty = Number(qtyStr);
+    if (!(qty > 0)) return alert("成交数量无效。");
+    const now = Date.now();
+    setTrades((x) =>
+      x.map((y) => (y.id === id ? applyLedger({ ...y, fills: [...y.fills, makeFill(y, "entry", price, qty, now)], updatedAt: now }) : y))
+    );
+  }
+
+  function cancelPlan(id: string) {
+    const reason = prompt("取消理由（可选，复盘时对照）：");
+    if (reason === null) return;
+    const now = Date.now();
+    setTrades((x) => x.map((t) => (t.id === id ? { ...t, status: "cancelled", cancelReason: reason.trim() || undefined, updatedAt: now } : t)));
+  }
+
+  // 手动记录放弃计划的假设出场（默认取最新报价）
+  function recordShadow(id: string) {
+    const t = trades.find((x) => x.id === id);
+    if (!t) return;
+    const q = quotes[t.symbol];
+    const text = prompt("假设出场价（如果当时按计划执行，会在哪里离场）：", String(t.shadow?.exit || q?.price || ""));
+    if (text === null) return;
+    if (!text.trim()) return setTrades((x) => x.map((y) => (y.id === id ? { ...y, shadow: undefined, updatedAt: Date.now() } : y)));
+    const exit = Number(text);
+    if (!(exit > 0)) return alert("价格无效。");
+    setTrades((x) => x.map((y) => (y.id === id ? { ...y, shadow: { exit, ts: Date.now() }, updatedAt: Date.now() } : y)));
+  }
+
+  // 只收图片与 PDF；先写文件再写元数据，避免出现没有文件的附件
+  function acceptFiles(files: File[]) {
+    const ok = files.filter((f) => isAttachable(f) && f.size <= MAX_ATTACH_MB * 1048576);
+    if (ok.length < files.length) alert(`只支持图片和 PDF，单个不超过 ${MAX_ATTACH_MB}MB，已跳过 ${files.length - ok.length} 个文件。`);
+    return ok;
+  }
+
+  function attachFiles(tradeId: string, files: File[], stage: Attachment["stage"]) {
+    const db = dbRef.current;
+    if (!db) return alert("附件需要 IndexedDB，当前为 localStorage 模式，无法保存附件。");
+    const now = Date.now();
+    const items = acceptFiles(files).map((f) => ({ f, a: { id: uid(), name: f.name || "粘贴图片.png", type: f.type, size: f.size, ts: now, stage } as Attachment }));
+    if (!items.length) return;
+    idbWrite(db, ["files"], (tx) => items.forEach((x) => tx.objectStore("files").put({ id: x.a.id, tradeId, blob: x.f })))
+      .then(() =>
+        setTrades((x) =>
+          x.map((t) => (t.id === tradeId ? { ...t, attachments: [...(t.attachments || []), ...items.map((y) => y.a)], updatedAt: Date.now() } : t))
+        )
+      )
+      .catch((e) => alert(`附件保存失败：${e?.message || e}`));
+  }
+
+  // 只移除引用；文件在下次启动时清理，撤销后仍能显示
+  function removeAttachment(tradeId: string, id: string) {
+    if (!confirm("确定移除这个附件？")) return;
+    setTrades((x) => x.map((t) => (t.id === tradeId ? { ...t, attachments: (t.attachments || []).filter((a) => a.id !== id), updatedAt: Date.now() } : t)));
+  }
+
+  function openReview(t: Trade) {
+    setReviewFor(t.id);
+    setJournalText("");
+    const r = t.review;
+    setReviewDraft(
+      r
+        ? { followedPlan: r.followedPlan, exitReason: r.exitReason, emotion: r.emotion, mistakes: r.mistakes, lesson: r.lesson || "" }
+        : { followedPlan: true, exitReason: guessExitReason(t), emotion: 3, mistakes: [], lesson: "" }
+    );
+  }
+
+  function toggleReview(t: Trade) {
+    if (reviewFor === t.id) return setReviewFor(null);
+    openReview(t);
+  }
+
+  function saveReview(id: string) {
+    const now = Date.now();
+    const review: TradeReview = { ...reviewDraft, ts: now, lesson: reviewDraft.lesson?.trim() || undefined };
+    setTrades((x) => x.map((t) => (t.id === id ? { ...t, review, updatedAt: now } : t)));
+    setReviewFor(null);
+  }
+
+  function addJournal(id: string) {
+    const text = journalText.trim();
+    if (!text) return;
+    const now = Date.now();
+    setTrades((x) => x.map((t) => (t.id === id ? { ...t, journal: [...(t.journal || []), { ts: now, text }], updatedAt: now } : t)));
+    setJournalText("");
+  }
+
+  function delJournal(id: string, ts: number) {
+    if (!confirm("确定删除这条日志？")) return;
+    setTrades((x) => x.map((t) => (t.id === id ? { ...t, journal: (t.journal || []).filter((j) => j.ts !== ts), updatedAt: Date.now() } : t)));
+  }
+
+  function toggleFills(id: string) {
+    setFillFor((x) => (x === id ? null : id));
+    setFillDraft({ kind: "exit", price: 0, qty: 0, fee: "" });
+  }
+
+  function addFill(id: string) {
+    const t = trades.find((x) => x.id === id);
+    if (!t) return;
+    const price = Number(fillDraft.price);
+    const qty = Number(fillDraft.qty);
+    if (!price || price <= 0) return alert("成交价无效。");
+    if (!qty || qty <= 0) return alert("成交数量无效。");
+    if (fillDraft.kind === "exit" && qty > calcLedger(t).openQty) {
+      return alert(`减仓数量不能超过剩余持仓（${fmt(calcLedger(t).openQty, 0)}）。`);
+    }
+
+    const f = makeFill(t, fillDraft.kind, price, qty);
+    if (fillDraft.fee !== "") f.fee = Number(fillDraft.fee) || 0;
+
+    const next = applyLedger({ ...t, fills: [...t.fills, f], updatedAt: Date.now() });
+    setTrades((x) => x.map((y) => (y.id === id ? next : y)));
+    setFillDraft((d) => ({ ...d, price: 0, qty: 0, fee: "" }));
+    // 这笔成交让交易平仓了：接着填复盘
+    if (next.status === "closed" && t.status !== "closed") {
+      setFillFor(null);
+      openReview(next);
+    }
+  }
+
+  function delFill(id: string, fillId: string) {
+    if (!confirm("确定删除这条成交记录？")) return;
+    setTrades((x) =>
+      x.map((t) =>
+        t.id === id ? applyLedger({ ...t, fills: t.fills.filter((f) => f.id !== fillId), updatedAt: Date.now() }) : t
+      )
+    );
+  }
+
+  // 计划成交核对为实际成交价：费用按新价格重新估算，计划价保持不变，差额计入执行滑点
+  function confirmFill(id: string, fillId: string) {
+    const t = trades.find((x) => x.id === id);
+    const f = t?.fills.find((x) => x.id === fillId);
+    if (!t || !f) return;
+    const text = prompt(`实际成交价（计划价 ${fmt(f.price, 3)}）：`, String(f.price));
+    if (text === null) return;
+    const price = Number(text);
+    if (!(price > 0)) return alert("成交价无效。");
+    const next = { ...makeFill(t, f.kind, price, f.qty, f.ts), id: f.id };
+    setTrades((x) =>
+      x.map((y) => (y.id === id ? applyLedger({ ...y, fills: y.fills.map((z) => (z.id === fillId ? next : z)), updatedAt: Date.now() }) : y))
+    );
+  }
+
+  function toggleStop(id: string) {
+    const t = trades.find((x) => x.id === id);
+    setStopFor((x) => (x === id ? null : id));
+    setStopDraft((d) => ({ ...d, price: t ? currentStop(t) : 0, ref: t && quotes[t.symbol] ? quotes[t.symbol].price : 0 }));
+  }
+
+  function moveStop(id: string) {
+    const t = trades.find((x) => x.id === id);
+    if (!t) return;
+    const { price, note } = suggestStop(t, stopDraft.mode, {
+      price: Number(stopDraft.price),
+      ref: Number(stopDraft.ref),
+      pct: Number(stopDraft.pct),
+      atrText: stopDraft.atrText,
+      atrN: Number(stopDraft.atrN),
+      atrK: Number(stopDraft.atrK),
+    });
+    if (!price || price <= 0) return alert("止损价无效。");
+    if ((stopDraft.mode === "trail_pct" || stopDraft.mode === "trail_atr") && !(Number(stopDraft.ref) > 0)) return alert("请填写参考价（如最近高点/现价）。");
+
+    const cur = currentStop(t);
+    if (Math.abs(price - cur) < 1e-9) return alert("止损价没有变化。");
+    const looser = t.side === "long" ? price < cur : price > cur;
+    if (looser && !confirm(`新止损 ${fmt(price, 3)} 比当前 ${fmt(cur, 3)} 更宽，确定放松止损？`)) return;
+
+    const c: StopChange = { ts: Date.now(), price, from: cur, mode: stopDraft.mode, note: note || undefined };
+    setTrades((x) => x.map((t) => (t.id === id ? { ...t, stopHistory: [...(t.stopHistory || []), c], updatedAt: c.ts } : t)));
+  }
+
+  // ===== 账户 =====
+  function addAccount() {
+    const name = prompt("账户名称（如 港股账户、期货账户）：");
+    if (!name || !name.trim()) return;
+    const currency = (prompt("币种（如 CNY / HKD / USD）：", settings.baseCurrency) || settings.baseCurrency).trim().toUpperCase();
+    const a: Account = { ...DEFAULT_ACCOUNT, id: uid(), name: name.trim(), currency };
+    setSettings((s) => ({ ...s, accounts: [...s.accounts, a] }));
+  }
+
+  function patchAccount(id: string, patch: Partial<Account>) {
+    setSettings((s) => ({ ...s, accounts: s.accounts.map((a) => (a.id === id ? { ...a, ...patch } : a)) }));
+  }
+
+  function removeAccount(id: string) {
+    if (settings.accounts.length <= 1) return alert("至少保留一个账户。");
+    const used = trades.filter((t) => t.account === id).length;
+    if (used) return alert(`有 ${used} 笔交易属于该账户，无法删除。`);
+    if (cashflows.some((f) => f.account === id)) return alert("该账户有资金流水，无法删除。");
+    if (!confirm("确定删除该账户？")) return;
+    setSettings((s) => ({ ...s, accounts: s.accounts.filter((a) => a.id !== id) }));
+    if (filter.account === id) patchFilter({ account: "" });
+  }
+
+  // ===== 资金流水 =====
+  const [flowDraft, setFlowDraft] = useState(() => ({
+    account: "",
+    kind: "deposit" as CashKind,
+    amount: 0,
+    date: new Date().toISOString().slice(0, 10),
+    note: "",
+  }));
+
+  function addCashFlow() {
+    const amount = Math.abs(Number(flowDraft.amount));
+    if (!amount) return alert("请填写金额。");
+    const ts = flowDraft.date ? new Date(`${flowDraft.date}T12:00:00`).getTime() : Date.now();
+    if (!Number.isFinite(ts)) return alert("日期无效。");
+    const f: CashFlow = {
+      id: uid(),
+      account: findAccount(settings.accounts, flowDraft.account).id,
+      ts,
+      kind: flowDraft.kind,
+      amount,
+      note: flowDraft.note.trim() || undefined,
+    };
+    setCashflows((x) => [...x, f]);
+    setFlowDraft((d) => ({ ...d, amount: 0, note: "" }));
+  }
+
+  function delCashFlow(id: string) {
+    if (!confirm("确定删除这条资金记录？")) return;
+    setCashflows((x) => x.filter((f) => f.id !== id));
+  }
+
+  // ===== 券商成交单 CSV 导入 =====
+  const csvRef = useRef<HTMLInputElement | null>(null);
+  const [csv, setCsv] = useState<{ name: string; rows: string[][] } | null>(null);
+  const [csvEncoding, setCsvEncoding] = useState("utf-8");
+  const [csvPreset, setCsvPreset] = useState<MappingPreset>(BUILTIN_PRESETS[0]);
+  const [csvAccount, setCsvAccount] = useState("");
+  const presets = [...BUILTIN_PRESETS, ...(settings.csvPresets || [])];
+
+  async function loadCSV(file: File) {
+    try {
+      const rows = parseCSV(await readFileText(file, csvEncoding));
+      if (rows.length < 2) return alert("CSV 没有数据行。");
+      setCsv({ name: file.name, rows });
+      const p = detectPreset(rows[0], presets);
+      if (p) setCsvPreset(p);
+    } catch {
+      alert("读取 CSV 失败。");
+    }
+  }
+
+  const brokerPreview = useMemo(() => {
+    if (!csv) return null;
+    const mapped = mapBrokerRows(csv.rows, csvPreset);
+    const m = findModel(settings.models, "trend");
+    const a = findAccount(settings.accounts, csvAccount);
+    const res = planBrokerImport(trades, mapped.fills, {
+      account: a.id,
+      currency: a.currency,
+      multiplier: a.multiplier || 1,
+      equity: sizingEquity(a, ledgers.get(a.id) || { current: a.equity, peak: a.equity }),
+      maxRiskPct: settings.maxRiskPct,
+      lotSize: a.lotSize,
+      feePct: a.feePct,
+      exitFeePct: a.exitFeePct,
+      slippage: a.slippage,
+      fees: a.feeSchedule ? findSchedule([...FEE_PRESETS, ...(settings.feeSchedules || [])], a.feeSchedule) : undefined,
+      model: m.id,
+      modelSnapshot: m,
+    });
+    return { ...res, errors: mapped.errors };
+  }, [csv, csvPreset, csvAccount, trades, settings, ledgers]);
+
+  function setCsvColumn(k: BrokerField, col: string) {
+    setCsvPreset((p) => ({ ...p, id: "", builtin: false, map: { ...p.map, [k]: col || undefined } }));
+  }
+
+  function saveCsvPreset() {
+    const name = prompt("预设名称：", csvPreset.builtin ? "" : csvPreset.name);
+    if (!name || !name.trim()) return;
+    const p: MappingPreset = { ...csvPreset, id: uid(), name: name.trim(), builtin: false };
+    setSettings((x) => ({ ...x, csvPresets: [...(x.csvPresets || []).filter((y) => y.name !== p.name), p] }));
+    setCsvPreset(p);
+  }
+
+  function delCsvPreset(id: string) {
+    if (!confirm("确定删除该预设？")) return;
+    setSettings((x) => ({ ...x, csvPresets: (x.csvPresets || []).filter((y) => y.id !== id) }));
+    setCsvPreset(BUILTIN_PRESETS[0]);
+  }
+
+  function commitCSV() {
+    if (!brokerPreview) return;
+    const n = brokerPreview.plan.filter((p) => p.action !== "duplicate" && p.action !== "unmatched").length;
+    if (!n) return alert("没有可导入的新成交。");
+    if (!confirm(`导入 ${n} 笔成交？`)) return;
+    setTrades(brokerPreview.trades);
+    setCsv(null);
+    alert("导入成功 ✅");
+    setTab("log");
+  }
+
+  // 有附件时导出 ZIP：JSON + attachments/ 下的原始文件；没有附件仍导出 JSON
+  async function exportJSON() {
+    const data = { schema: SCHEMA_VERSION, exportedAt: Date.now(), settings, trades, cashflows };
+    const list = trades.flatMap((t) => t.attachments || []);
+    const db = dbRef.current;
+    if (!list.length || !db) return downloadJSON(data, "trading_ops_export.json");
+    try {
+      const entries: ZipEntry[] = [{ name: "trading_ops_export.json", data: new TextEncoder().encode(JSON.stringify(data, null, 2)) }];
+      let missing = 0;
+      for (const a of list) {
+        const r = await idbGet<{ blob: Blob }>(db, "files", a.id);
+        if (!r) {
+          missing++;
+          continue;
+        }
+        entries.push({ name: attachPath(a), data: new Uint8Array(await r.blob.arrayBuffer()) });
+      }
+      downloadBlob(makeZip(entries), "trading_ops_export.zip");
+      if (missing) alert(`有 ${missing} 个附件在本地已找不到，未包含在导出包中。`);
+    } catch (e: any) {
+      alert(`导出失败：${e?.message || e}`);
+    }
+  }
+
+  // ===== 历史日线 =====
+  const barsRef = useRef<HTMLInputElement | null>(null);
+  const [barSymbol, setBarSymbol] = useState("");
+
+  // 文件没有代码列时用填写的代码，未填则用文件名（如 600089.csv）
+  async function importBars(file: File) {
+    const db = dbRef.current;
+    if (!db) return alert("历史行情需要 IndexedDB，当前为 localStorage 模式，无法保存。");
+    const base = file.name.replace(/\.[^.]+$/, "");
+    try {
+      const { bySymbol, skipped } = parseBars(parseCSV(await readFileText(file, csvEncoding)), barSymbol || (/^[\w.]+$/.test(base) ? base : ""));
+      const syms = Object.keys(bySymbol);
+      if (!syms.length) return alert("没有可导入的 K 线。");
+      const next = syms.map((k) => ({ symbol: k, bars: mergeBars(bars[k] || [], bySymbol[k]) }));
+      await idbWrite(db, ["bars"], (tx) => next.forEach((x) => tx.objectStore("bars").put(x)));
+      setBars((cur) => next.reduce((m, x) => ({ ...m, [x.symbol]: x.bars }), cur));
+      alert(`已导入 ${syms.join("、")}：${syms.reduce((s, k) => s + bySymbol[k].length, 0)} 根日线${skipped ? `，跳过 ${skipped} 行无效数据` : ""}。`);
+    } catch (e: any) {
+      alert(`导入日线失败：${e?.message || e}`);
+    }
+  }
+
+  function delBars(symbol: string) {
+    const db = dbRef.current;
+    if (!db || !confirm(`删除 ${symbol} 的全部日线？`)) return;
+    idbWrite(db, ["bars"], (tx) => tx.objectStore("bars").delete(symbol))
+      .then(() =>
+        setBars((cur) => {
+          const next = { ...cur };
+          delete next[symbol];
+          return next;
+        })
+      )
+      .catch((e) => alert(`删除失败：${e?.message || e}`));
+  }
+
+  function patchReplay(p: Partial<ReplayCfg>) {
+    setSettings((x) => ({ ...x, replay: { ...(x.replay || DEFAULT_REPLAY), ...p } }));
+  }
+
+  // 已平仓但缺少日线覆盖的代码，提示去导入
+  const barsMissing = useMemo(
+    () => Array.from(new Set(trades.filter((t) => t.status === "closed" && !bars[normSymbol(t.symbol)]).map((t) => normSymbol(t.symbol)))).sort(),
+    [trades, bars]
+  );
+
+  // ===== 规则回测 =====
+  const [btCfg, setBtCfg] = useState(() => ({
+    model: "trend" as ModelType,
+    threshold: 0,                        // 0 = 模型最高一档结论的分数
+    unknown: "scale" as "scale" | "fail",
+    atrK: 2,
+    exit: "target" as ExitSpec["kind"],
+    exitR: 2,
+    exitDays: 10,
+    account: "",
+    symbols: "",                         // 空 = 全部已导入日线的代码
+  }));
+  const [btResult, setBtResult] = useState<(ReturnType<typeof runBacktest> & { ranAt: number; modelId: string; account: Account; threshold: number; symbols: string[] }) | null>(null);
+  const btModel = findModel(settings.models, btCfg.model);
+  const btThreshold = btCfg.threshold || Math.max(0, ...btModel.verdicts.map((v) => v.min));
+  // 参与回测的日线：填了代码只取这些，留空 = 全部已导入
+  const btBars = useMemo(() => {
+    const pick = btCfg.symbols.split(/[\s,，、]+/).map(normSymbol).filter(Boolean);
+    return pick.length ? pick.filter((k) => bars[k]).reduce((o, k) => ({ ...o, [k]: bars[k] }), {} as Record<string, Bar[]>) : bars;
+  }, [btCfg.symbols, bars]);
+  const btVolume = Object.values(btBars).some(hasVolume);
+
+  function patchBt(p: Partial<typeof btCfg>) {
+    setBtCfg((c) => ({ ...c, ...p }));
+  }
+
+  // 仓位与成本按所选账户的规则（单笔风险、手数、费用方案）计算，只做多
+  function runBT() {
+    const a = findAccount(settings.accounts, btCfg.account);
+    const fees = a.feeSchedule ? findSchedule(allSchedules, a.feeSchedule) : undefined;
+    const m = a.multiplier || 1;
+    const data = btBars;
+    if (!Object.keys(data).length) return alert("没有可用的日线，请先在「导入成交」里导入。");
+    if (!btModel.items.some((it) => autoItem(it.k, btVolume))) return alert("该模型没有可机械计算的条目。");
+    const exit: ExitSpec = btCfg.exit === "time" ? { kind: "time", days: btCfg.exitDays } : { kind: btCfg.exit, r: btCfg.exitR };
+    const res = runBacktest(data, {
+      items: btModel.items,
+      threshold: btThreshold,
+      unknown: btCfg.unknown,
+      atrK: btCfg.atrK,
+      exit,
+      startEquity: a.equity,
+      multiplier: m,
+      size: (eq, entry, stop) => calcSizing(eq, settings.maxRiskPct, entry, stop, a.lotSize, "long", a.feePct, a.exitFeePct, a.slippage, m, { fees }).size,
+      pnl: (entry, exitPrice, size) => calcPnL(entry, exitPrice, size, "long", a.feePct, a.exitFeePct, a.slippage, m, 0, fees),
+    });
+    setBtResult({ ...res, ranAt: Date.now(), modelId: btModel.id, account: a, threshold: btThreshold, symbols: Object.keys(data) });
+  }
+
+  const btCompare = useMemo(() => {
+    if (!btResult) return null;
+    const actual = trades.filter((t) => t.status === "closed" && t.model === btResult.modelId && hasR(t));
+    return { backtest: rSummary(btResult.trades.map((t) => t.r)), actual: rSummary(actual.map((t) => t.r || 0)) };
+  }, [btResult, trades]);
+
+  function exportBtCSV() {
+    if (!btResult) return;
+    downloadCSV(
+      [
+        ["代码", "信号日", "得分", "入场日", "入场价", "止损", "离场日", "离场价", "离场原因", "数量", "盈亏", "R"],
+        ...btResult.trades.map((t) => [
+          t.symbol, dateInput(t.signalTs), t.score, dateInput(t.entryTs), t.entry, +t.stop.toFixed(4), dateInput(t.exitTs), +t.exit.toFixed(4),
+          REPLAY_REASON_LABEL[t.reason], t.size, +t.pnl.toFixed(2), +t.r.toFixed(2),
+        ]),
+      ],
+      `backtest_${dateInput(btResult.ranAt)}.csv`
+    );
+  }
+
+  // ===== JSON 导入：迁移 → 校验 → 预览 → 合并/替换 =====
+  const [jsonImport, setJsonImport] = useState<{ name: string; data: any; files?: Record<string, Uint8Array> } | null>(null);
+  const [importMode, setImportMode] = useState<"merge" | "replace">("merge");
+  const [conflictUse, setConflictUse] = useState<"local" | "incoming">("local");
+  const [importSettings, setImportSettings] = useState(false);
+
+  async function importZip(file: File) {
+    try {
+      const entries = readZip(await file.arrayBuffer());
+      const json = entries.find((e) => e.name.toLowerCase().endsWith(".json"));
+      if (!json) throw new Error("包里没有 JSON 数据");
+      const data = migrate(JSON.parse(new TextDecoder().decode(json.data)));
+      if (!Array.isArray(data.trades)) throw new Error("缺少 trades");
+      const files: Record<string, Uint8Array> = {};
+      entries.filter((e) => e.name.startsWith("attachments/")).forEach((e) => (files[e.name.split("/")[1]] = e.data));
+      setJsonImport({ name: file.name, data, files });
+      setImportMode("merge");
+      setConflictUse("local");
+      setImportSettings(false);
+    } catch (e: any) {
+      alert(`导入失败：${e?.message || "文件格式不正确"}`);
+    }
+  }
+
+  function importJSON(file: File) {
+    if (file.name.toLowerCase().endsWith(".zip")) return void importZip(file);
+    const r = new FileReader();
+    r.onload = () => {
+      try {
+        const data = migrate(JSON.parse(String(r.result || "{}")));
+        if (!Array.isArray(data.trades)) throw new Error("缺少 trades");
+        setJsonImport({ name: file.name, data });
+        setImportMode("merge");
+        setConflictUse("local");
+        setImportSettings(false);
+      } catch (e: any) {
+        alert(`导入失败：${e?.message || "文件格式不正确"}`);
+      }
+    };
+    r.readAsText(file);
+  }
+
+  const importDiff = useMemo(() => (jsonImport ? diffImport(trades, jsonImport.data.trades) : null), [jsonImport, trades]);
+
+  async function commitImport() {
+    if (!jsonImport || !importDiff) return;
+    const incoming = jsonImport.data;
+    const valid = importDiff.rows.map((x) => x.t);
+    const files = jsonImport.files || {};
+    const overwrites = importDiff.rows.filter((x) => x.kind === "update" || (x.kind === "conflict" && conflictUse === "incoming")).length;
+    const destructive = importMode === "replace" || overwrites > 0 || importSettings;
+
+    if (importMode === "replace" && !confirm(`替换将清空本地 ${trades.length} 笔交易，换成导入的 ${valid.length} 笔。继续？`)) return;
+    if (destructive) setBackups((x) => pushBackup(x, `导入 ${jsonImport.name} 前`, { schema: SCHEMA_VERSION, settings, trades, cashflows }));
+
+    // 附件先写库，交易随后出现时缩略图即可读到
+    const metas = new Map(valid.flatMap((t) => (t.attachments || []).map((a) => [a.id, { a, tradeId: t.id }] as const)));
+    const ids = Object.keys(files).filter((id) => metas.has(id));
+    const db = dbRef.current;
+    if (ids.length && !db) alert("当前为 localStorage 模式，附件无法保存，只导入交易数据。");
+    if (ids.length && db) {
+      try {
+        await idbWrite(db, ["files"], (tx) =>
+          ids.forEach((id) => {
+            const m = metas.get(id)!;
+            tx.objectStore("files").put({ id, tradeId: m.tradeId, blob: new Blob([files[id]] as BlobPart[], { type: m.a.type }) });
+          })
+        );
+      } catch (e: any) {
+        return alert(`附件写入失败：${e?.message || e}`);
+      }
+    }
+
+    if (importMode === "replace") {
+      setTrades(valid);
+      if (incoming.settings) setSettings((s) => ({ ...s, ...incoming.settings }));
+      setCashflows(Array.isArray(incoming.cashflows) ? incoming.cashflows : []);
+    } else {
+      const take = new Map(
+        importDiff.rows
+          .filter((x) => x.kind === "update" || (x.kind === "conflict" && conflictUse === "incoming"))
+          .map((x) => [x.t.id, x.t])
+      );
+      setTrades((cur) => [
+        ...importDiff.rows.filter((x) => x.kind === "add").map((x) => x.t),
+        ...cur.map((t) => take.get(t.id) || t),
+      ]);
+      if (importSettings && incoming.settings) setSettings((s) => ({ ...s, ...incoming.settings }));
+      // 资金流水按 id 追加，已存在的不覆盖
+      if (Array.isArray(incoming.cashflows)) {
+        setCashflows((cur) => [...cur, ...incoming.cashflows.filter((f: CashFlow) => f && f.id && !cur.some((x) => x.id === f.id))]);
+      }
+    }
+    setJsonImport(null);
+    alert("导入成功 ✅");
+  }
+
+  function restoreBackup(i: number) {
+    const b = backups[i];
+    if (!b || !confirm(`恢复 ${new Date(b.ts).toLocaleString()} 的备份（${b.reason}）？当前数据会先另存一份备份。`)) return;
+    try {
+      const data = migrate(b.data);
+      setBackups((x) => pushBackup(x, "恢复备份前", { schema: SCHEMA_VERSION, settings, trades, cashflows }));
+      if (data.settings) setSettings((s) => ({ ...s, ...data.settings }));
+      setTrades(Array.isArray(data.trades) ? data.trades : []);
+      if (Array.isArray(data.cashflows)) setCashflows(data.cashflows);
+    } catch (e: any) {
+      alert(`备份无法恢复：${e?.message || e}`);
+    }
+  }
+
+  // 日志筛选同时作用于统计与复盘；持仓风控、行情与提醒始终看全部交易
+  const view = useMemo(() => filterTrades(trades, filter), [trades, filter]);
+  const sorted = useMemo(() => sortTrades(view, sort.key, sort.desc), [view, sort]);
+  const pageCount = Math.max(1, Math.ceil(sorted.length / PAGE_SIZE));
+  const pageRows = sorted.slice(Math.min(page, pageCount - 1) * PAGE_SIZE, Math.min(page, pageCount - 1) * PAGE_SIZE + PAGE_SIZE);
+
+  // 当前页用到的附件读成 object URL；找不到或读取失败的不缓存（缩略图显示占位），下次再试
+  useEffect(() => {
+    const db = dbRef.current;
+    if (!ready || !db) return;
+    const need = pageRows.flatMap((t) => t.attachments || []).filter((a) => !fileUrls[a.id]);
+    if (!need.length) return;
+    let alive = true;
+    Promise.all(need.map((a) => idbGet<{ blob: Blob }>(db, "files", a.id).then((r) => ({ id: a.id, r }))))
+      .then((list) => {
+        if (!alive) return;
+        const found = list.filter((x) => x.r);
+        if (!found.length) return;
+        setFileUrls((cur) => found.reduce((m, x) => ({ ...m, [x.id]: URL.createObjectURL(x.r!.blob) }), cur));
+      })
+      .catch(() => undefined);
+    return () => {
+      alive = false;
+    };
+  }, [ready, pageRows]);
+
+  // 翻页后不再显示的附件释放 object URL（正在大图查看的保留），卸载时全部释放
+  const fileUrlsRef = useRef(fileUrls);
+  fileUrlsRef.current = fileUrls;
+  useEffect(() => {
+    const keep = new Set(pageRows.flatMap((t) => (t.attachments || []).map((a) => a.id)));
+    if (lightbox) keep.add(lightbox.id);
+    const drop = Object.keys(fileUrlsRef.current).filter((id) => !keep.has(id));
+    if (!drop.length) return;
+    drop.forEach((id) => URL.revokeObjectURL(fileUrlsRef.current[id]));
+    setFileUrls((cur) => Object.fromEntries(Object.entries(cur).filter(([id]) => keep.has(id))));
+  }, [pageRows, lightbox]);
+  useEffect(() => () => Object.values(fileUrlsRef.current).forEach((u) => URL.revokeObjectURL(u)), []);
+  const industries = useMemo(() => Array.from(new Set(trades.map((t) => t.industry || "").filter(Boolean))).sort(), [trades]);
+  const allTags = useMemo(() => Array.from(new Set(trades.flatMap((t) => t.tags || []))).sort(), [trades]);
+
+  function patchFilter(p: Partial<TradeFilter>) {
+    setFilter((f) => ({ ...f, ...p }));
+    setPage(0);
+  }
+
+  function toggleSort(key: SortKey) {
+    setSort((s) => (s.key === key ? { key, desc: !s.desc } : { key, desc: true }));
+    setPage(0);
+  }
+
+  function sortMark(key: SortKey) {
+    return sort.key === key ? (sort.desc ? " ↓" : " ↑") : "";
+  }
+
+  // 统计口径：选定单一账户时用账户币种；合并视图把金额按汇率折算为基准币
+  const viewAcct = filter.account ? findAccount(settings.accounts, filter.account) : null;
+  const viewCcy = viewAcct ? viewAcct.currency : settings.baseCurrency;
+  const rateOf = (currency: string) => (viewAcct ? 1 : fxRate(settings.fx, currency, settings.baseCurrency));
+  const viewEquity = viewAcct ? viewAcct.equity : settings.accounts.reduce((s, a) => s + a.equity * rateOf(a.currency), 0);
+  const viewLedger = (viewAcct ? [viewAcct] : settings.accounts).reduce((s, a) => s + (ledgers.get(a.id)?.current ?? a.equity) * rateOf(a.currency), 0);
+  const viewFlows = useMemo(
+    () =>
+      cashflows
+        .filter((f) => (viewAcct ? f.account === viewAcct.id : settings.accounts.some((a) => a.id === f.account)))
+        .map((f) => ({
+          ts: f.ts,
+          amount: cashAmount(f) * rateOf(findAccount(settings.accounts, f.account).currency),
+          income: f.kind === "dividend",
+        })),
+    [cashflows, viewAcct, settings.accounts, settings.fx, settings.baseCurrency]
+  );
+  const statView = useMemo(
+    () => (viewAcct ? view : view.map((t) => (typeof t.pnl === "number" ? { ...t, pnl: t.pnl * rateOf(t.currency) } : t))),
+    // rateOf 只依赖下列字段
+    [view, viewAcct, settings.fx, settings.baseCurrency]
+  );
+  const missingFx = Array.from(
+    new Set(settings.accounts.map((a) => a.currency).filter((c) => c !== settings.baseCurrency && !(settings.fx[c] > 0)))
+  );
+
+  const kpi = useMemo(() => {
+    const closed = statView.filter((t) => t.status === "closed" && typeof t.pnl === "number");
+    const wins = closed.filter((t) => (t.pnl || 0) > 0);
+    const losses = closed.filter((t) => (t.pnl || 0) < 0);
+    const winRate = closed.length ? wins.length / closed.length : 0;
+
+    const grossWin = wins.reduce((s, t) => s + (t.pnl || 0), 0);
+    const grossLossAbs = Math.abs(losses.reduce((s, t) => s + (t.pnl || 0), 0));
+    const profitFactor = grossLossAbs === 0 ? (grossWin > 0 ? Infinity : 0) : grossWin / grossLossAbs;
+
+    const withR = closed.filter(hasR);
+    const avgR = withR.length ? withR.reduce((s, t) => s + (t.r || 0), 0) / withR.length : 0;
+
+    return { closedCount: closed.length, winRate, profitFactor, avgR, grossWin, grossLossAbs };
+  }, [statView]);
+
+  const curve = useMemo(() => calcEquityCurve(statView, viewEquity, viewFlows), [statView, viewEquity, viewFlows]);
+
+  // 执行质量：按账户分别与该账户设定的滑点对比（滑点按价格单位，不做汇率折算）
+  const execStats = useMemo(() => calcExecStats(statView), [statView]);
+  const execRows = useMemo(
+    () =>
+      settings.accounts
+        .map((a) => ({ a, x: calcExecStats(statView.filter((t) => t.account === a.id)) }))
+        .filter((r) => r.x.n > 0),
+    [settings.accounts, statView]
+  );
+
+  const marks = useMemo(
+    () =>
+      trades
+        .filter((t) => t.status === "open" && (!filter.account || t.account === filter.account))
+        .map((t) => ({ t, L: calcLedger(t), q: quotes[t.symbol] }))
+        .filter((x) => x.L.openQty > 0)
+        .map((x) => ({ ...x, m: x.q ? calcMark(x.t, x.q.price) : undefined })),
+    [trades, quotes, filter.account]
+  );
+  const unrealized = marks.reduce((s, x) => s + (x.m?.unrealized || 0) * rateOf(x.t.currency), 0);
+
+  // 账户概览：各账户按自身币种汇总，再按汇率折算合计
+  const accountRows = useMemo(
+    () =>
+      settings.accounts.map((a) => {
+        const list = trades.filter((t) => t.account === a.id);
+        const ledger = ledgers.get(a.id) || calcAccountLedger(a, trades, cashflows);
+        let open = 0;
+        let unreal = 0;
+        list.forEach((t) => {
+          if (t.status !== "open" || calcLedger(t).openQty <= 0) return;
+          open++;
+          const q = quotes[t.symbol];
+          if (q) unreal += calcMark(t, q.price).unrealized;
+        });
+        const rate = fxRate(settings.fx, a.currency, settings.baseCurrency);
+        return { a, count: list.length, open, ledger, unreal, rate, total: (ledger.current + unreal) * rate };
+      }),
+    [settings.accounts, settings.fx, settings.baseCurrency, trades, quotes, ledgers, cashflows]
+  );
+
+  // 行情或持仓变化时检查止损/目标（alerts 只用于去重，不作为触发条件）
+  useEffect(() => {
+    const fresh = checkAlerts(trades, quotes, settings.alertNearPct ?? 0, alerts);
+    if (!fresh.length) return;
+    setAlerts((a) => [...fresh, ...a]);
+    if (settings.browserNotify && typeof Notification !== "undefined" && Notification.permission === "granted") {
+      fresh.forEach((a) => showNotification(`${a.symbol} ${ALERT_LABEL[a.kind]}`, { body: `现价 ${fmt(a.price, 2)} · 价位 ${fmt(a.level, 2)}`, tag: a.id }));
+    }
+  }, [trades, quotes]);
+
+  // 计划过期与放弃计划的假设出场：行情/数据变化时检查，另每分钟检查一次到期
+  const [clock, setClock] = useState(() => Date.now());
+  useEffect(() => {
+    const h = setInterval(() => setClock(Date.now()), 60000);
+    return () => clearInterval(h);
+  }, []);
+  useEffect(() => {
+    if (!ready) return;
+    const next = advancePlans(trades, quotes, Date.now());
+    if (!next) return;
+    histSource.current = "auto";
+    setTrades(next);
+  }, [ready, trades, quotes, clock]);
+
+  const pendingAlerts = alerts.filter((a) => !a.ackAt);
+
+  function ackAlerts(ids: string[]) {
+    const now = Date.now();
+    setAlerts((x) => x.map((a) => (ids.includes(a.id) && !a.ackAt ? { ...a, ackAt: now } : a)));
+  }
+
+  async function toggleBrowserNotify(on: boolean) {
+    if (on && typeof Notification !== "undefined" && Notification.permission !== "granted") {
+      const p = await Notification.requestPermission();
+      if (p !== "granted") return alert("浏览器未授权通知，仍会在页面内提醒。");
+    }
+    setSettings((s) => ({ ...s, browserNotify: on }));
+  }
+
+  function markPrice(symbol: string) {
+    const str = prompt(`输入 ${symbol} 最新价：`, quotes[symbol] ? String(quotes[symbol].price) : "");
+    if (!str) return;
+    const price = Number(str);
+    if (!price || price <= 0) return alert("价格无效。");
+    setQuotes((q) => ({ ...q, [symbol]: manualQuote(symbol, price) }));
+  }
+
+  async function refreshQuotes() {
+    const symbols = Array.from(new Set(marks.map((x) => x.t.symbol)));
+    const provider = settings.quoteSource === "http" ? createHttpProvider(settings.quoteUrl) : createManualProvider(quotes);
+    try {
+      const got = await provider.fetchQuotes(symbols);
+      setQuotes((q) => {
+        const next = { ...q };
+        got.forEach((x) => (next[x.symbol] = x));
+        return next;
+      });
+      setQuoteErr("");
+    } catch (e: any) {
+      setQuoteErr(`行情刷新失败：${e?.message || e}`);
+    }
+  }
+
+  // 自动刷新（仅 HTTP 行情源）
+  const refreshRef = useRef(refreshQuotes);
+  refreshRef.current = refreshQuotes;
+  useEffect(() => {
+    if (settings.quoteSource !== "http" || !(settings.quoteRefreshSec > 0)) return;
+    const h = setInterval(() => refreshRef.current(), settings.quoteRefreshSec * 1000);
+    return () => clearInterval(h);
+  }, [settings.quoteSource, settings.quoteRefreshSec]);
+  const periodPnL = useMemo(() => calcPeriodPnL(statView, period), [statView, period]);
+  const groupStats = useMemo(() => calcGroupStats(statView, groupDim, settings.models), [statView, groupDim, settings.models]);
+  const reviewStats = useMemo(() => calcReviewStats(statView, settings.mistakes || []), [statView, settings.mistakes]);
+
+  // 报表导出：交易/成交明细按日志当前筛选与排序；汇总与复盘报告的金额口径同上方统计
+  function exportTradesCSV() {
+    downloadCSV(tradeCSVRows(sorted, settings), `trades_${dateInput(Date.now())}.csv`);
+  }
+
+  function exportFillsCSV() {
+    downloadCSV(fillCSVRows(sorted, settings.accounts), `fills_${dateInput(Date.now())}.csv`);
+  }
+
+  function exportSummaryCSV() {
+    const n = (x: number, d = 2) => (Number.isFinite(x) ? +x.toFixed(d) : x > 0 ? "∞" : "");
+    const rows: CSVCell[][] = [
+      ["统计口径", viewAcct ? viewAcct.name : `全部账户（按 ${viewCcy} 合并）`, isFiltered(filter) ? `仅含日志筛选结果 ${view.length} / ${trades.length} 笔` : ""],
+      ["导出时间", csvTime(Date.now())],
+      [],
+      ["指标", "数值"],
+      ["已平仓笔数", kpi.closedCount],
+      ["胜率%", n(kpi.winRate * 100, 1)],
+      ["Profit Factor", n(kpi.profitFactor)],
+      ["平均R", n(kpi.avgR)],
+      ["盈利合计", n(kpi.grossWin)],
+      ["亏损合计", n(-kpi.grossLossAbs)],
+      ["净盈亏", n(kpi.grossWin - kpi.grossLossAbs)],
+      ["期初权益", n(viewEquity)],
+      ["账本权益", n(viewLedger)],
+      ["时间加权收益%", n(curve.twr * 100)],
+      ["最大回撤", n(curve.maxDD)],
+      ["最大回撤%", n(curve.maxDDPct * 100)],
+      [],
+      ["月度盈亏"],
+      ["月份", "盈亏"],
+      ...calcPeriodPnL(statView, "month").map((p) => [p.key, n(p.pnl)]),
+      ...GROUP_DIMS.flatMap((g) => [
+        [],
+        [`按${g.t}`],
+        [g.t, "笔数", "胜率%", "平均盈利R", "平均亏损R", "期望值R", "Profit Factor", "盈亏"],
+        ...calcGroupStats(statView, g.k, settings.models).map((x) => [x.key, x.count, n(x.winRate * 100, 1), n(x.avgWinR), n(x.avgLossR), n(x.expectancy), n(x.profitFactor), n(x.pnl)]),
+      ]),
+      [],
+      ["错误代价"],
+      ["错误类型", "次数", "胜率%", "平均R", "比无错误 每笔R", "估计代价R", "盈亏"],
+      ...reviewStats.rows.map((x) => [x.key, x.count, n(x.winRate * 100, 1), n(x.expectancy), n(x.delta), n(x.cost), n(x.pnl)]),
+    ];
+    downloadCSV(rows, `summary_${dateInput(Date.now())}.csv`);
+  }
+
+  const replayCfg = settings.replay || DEFAULT_REPLAY;
+  const replayStats = useMemo(() => calcReplayStats(statView, bars, replayCfg, settings.models), [statView, bars, replayCfg, settings.models]);
+
+  // 月度/季度复盘报告：期初权益 = 期初资金 + 之前已平仓盈亏 + 之前的出入金
+  const periods = useMemo(() => reportPeriods(statView), [statView]);
+  const reportData = useMemo(() => {
+    if (!report) return null;
+    const { from, to, label } = periodRange(report);
+    const inRange = (ts: number) => ts >= from && ts < to;
+    const closed = statView.filter((t) => t.status === "closed" && typeof t.pnl === "number");
+    const list = closed.filter((t) => inRange(closedAt(t))).sort((a, b) => closedAt(a) - closedAt(b));
+    const start =
+      viewEquity +
+      closed.filter((t) => closedAt(t) < from).reduce((s, t) => s + (t.pnl || 0), 0) +
+      viewFlows.filter((f) => f.ts < from).reduce((s, f) => s + f.amount, 0);
+    const eq = calcEquityCurve(list, start, viewFlows.filter((f) => inRange(f.ts)));
+    const wins = list.filter((t) => (t.pnl || 0) > 0);
+    const grossWin = wins.reduce((s, t) => s + (t.pnl || 0), 0);
+    const grossLossAbs = Math.abs(list.filter((t) => (t.pnl || 0) < 0).reduce((s, t) => s + (t.pnl || 0), 0));
+    const withR = list.filter(hasR);
+    return {
+      label,
+      list,
+      start,
+      eq,
+      pnl: grossWin - grossLossAbs,
+      winRate: list.length ? wins.length / list.length : 0,
+      profitFactor: grossLossAbs === 0 ? (grossWin > 0 ? Infinity : 0) : grossWin / grossLossAbs,
+      avgR: withR.length ? withR.reduce((s, t) => s + (t.r || 0), 0) / withR.length : 0,
+      fees: list.reduce((s, t) => s + calcLedger(t).fees * rateOf(t.currency), 0),
+      models: calcGroupStats(list, "model", settings.models),
+      review: calcReviewStats(list, settings.mistakes || []),
+    };
+  }, [report, statView, viewEquity, viewFlows, viewAcct, settings.fx, settings.baseCurrency, settings.models, settings.mistakes]);
+  const skippedStats = useMemo(() => calcSkippedStats(statView), [statView]);
+  const calib = useMemo(() => calcCalibration(statView, findModel(settings.models, calibModel)), [statView, calibModel, settings.models]);
+
+  // 模型保存即升版本；已保存交易保留各自的快照
+  function saveModel(m: ScoreModel) {
+    setSettings((x) => {
+      const exists = x.models.some((y) => y.id === m.id);
+      const next = { ...m, version: exists ? findModel(x.models, m.id).version + 1 : 1, updatedAt: Date.now() };
+      return { ...x, models: exists ? x.models.map((y) => (y.id === m.id ? next : y)) : [...x.models, next] };
+    });
+  }
+
+  function applyWeights() {
+    const m = findModel(settings.models, calibModel);
+    if (!confirm(`用建议权重保存为「${m.name}」v${m.version + 1}？已保存交易的得分不会改变。`)) return;
+    const w = new Map(calib.items.map((it) => [it.k, it.suggested]));
+    saveModel({ ...m, items: m.items.map((it) => ({ ...it, w: w.get(it.k) ?? it.w })) });
+    setModelDraft(null);
+  }
+
+  function editModel(id: ModelType) {
+    const m = findModel(settings.models, id);
+    setModelDraft({ ...m, items: m.items.map((it) => ({ ...it })), verdicts: m.verdicts.map((v) => ({ ...v })) });
+  }
+
+  function newModel(from?: ScoreModel) {
+    const id = uid();
+    setModelDraft(
+      from
+        ? { ...from, id, name: `${from.name}（副本）`, version: 0, items: from.items.map((it) => ({ ...it })), verdicts: from.verdicts.map((v) => ({ ...v })) }
+        : { id, name: "新模型", version: 0, items: [{ k: "item1", t: "清单项1", w: 10 }], verdicts: [{ min: 80, label: "✅ 可建仓" }], fallback: "❌ 放弃", updatedAt: 0 }
+    );
+  }
+
+  function commitModel() {
+    const m = modelDraft;
+    if (!m) return;
+    if (!m.name.trim()) return alert("模型名称必填。");
+    if (!m.items.length) return alert("至少需要一个清单项。");
+    const keys = m.items.map((it) => it.k.trim());
+    if (keys.some((k) => !k)) return alert("清单项 key 不能为空。");
+    if (new Set(keys).size !== keys.length) return alert("清单项 key 不能重复。");
+    if (m.items.some((it) => !(Number(it.w) >= 0))) return alert("权重必须是非负数。");
+    if (m.items.reduce((s, it) => s + Number(it.w), 0) <= 0) return alert("权重合计必须大于 0。");
+    saveModel({
+      ...m,
+      name: m.name.trim(),
+      items: m.items.map((it) => ({ ...it, k: it.k.trim(), w: Number(it.w) })),
+      verdicts: m.verdicts.map((v) => ({ ...v, min: Number(v.min) })).sort((a, b) => b.min - a.min),
+    });
+    setModelDraft(null);
+  }
+
+  function delModel(id: ModelType) {
+    if (settings.models.length <= 1) return alert("至少保留一个模型。");
+    const used = trades.filter((t) => t.model === id).length;
+    if (!confirm(used ? `有 ${used} 笔交易使用该模型（保留快照，不受影响）。确定删除？` : "确定删除该模型？")) return;
+    setSettings((x) => ({ ...x, models: x.models.filter((m) => m.id !== id) }));
+    setModelDraft(null);
+  }
+
+  function patchDraftModel(patch: Partial<ScoreModel>) {
+    setModelDraft((m) => (m ? { ...m, ...patch } : m));
+  }
+
+  function addMistake() {
+    const label = prompt("错误类型名称：");
+    if (!label || !label.trim()) return;
+    setSettings((x) => ({ ...x, mistakes: [...(x.mistakes || []), { id: uid(), label: label.trim() }] }));
+  }
+
+  function renameMistake(id: string, label: string) {
+    setSettings((x) => ({ ...x, mistakes: (x.mistakes || []).map((m) => (m.id === id ? { ...m, label } : m)) }));
+  }
+
+  function delMistake(id: string) {
+    const used = trades.filter((t) => t.review?.mistakes.includes(id)).length;
+    if (!confirm(used ? `有 ${used} 笔复盘用到该类型（复盘记录保留，统计中显示为已删除）。确定删除？` : "确定删除该错误类型？")) return;
+    setSettings((x) => ({ ...x, mistakes: (x.mistakes || []).filter((m) => m.id !== id) }));
+  }
+
+  function editFee(id: string) {
+    const f = findSchedule(allSchedules, id);
+    if (f) setFeeDraft({ ...f, components: f.components.map((c) => ({ ...c })) });
+  }
+
+  function newFee(from?: FeeSchedule) {
+    setFeeDraft(
+      from
+        ? { id: uid(), name: `${from.name}（副本）`, components: from.components.map((c) => ({ ...c })) }
+        : { id: uid(), name: "新费用方案", components: [newComponent()] }
+    );
+  }
+
+  function patchFeeComponent(i: number, patch: Partial<FeeComponent>) {
+    setFeeDraft((f) => (f ? { ...f, components: f.components.map((c, j) => (j === i ? { ...c, ...patch } : c)) } : f));
+  }
+
+  function commitFee() {
+    const f = feeDraft;
+    if (!f || f.builtin) return;
+    if (!f.name.trim()) return alert("方案名称必填。");
+    if (!f.components.length) return alert("至少需要一个收费项。");
+    if (f.components.some((c) => !c.name.trim())) return alert("收费项名称不能为空。");
+    const nums = f.components.flatMap((c) => [c.rate, c.perShare, c.fixed, c.min, c.max, c.maxPct]);
+    if (nums.some((v) => v !== undefined && !(Number(v) >= 0))) return alert("费率与金额必须是非负数。");
+    const next: FeeSchedule = { ...f, name: f.name.trim(), components: f.components.map((c) => ({ ...c, name: c.name.trim() })) };
+    // 已保存的交易保留方案快照，修改方案只影响之后的新计划
+    setSettings((x) => {
+      const list = x.feeSchedules || [];
+      const exists = list.some((y) => y.id === next.id);
+      return { ...x, feeSchedules: exists ? list.map((y) => (y.id === next.id ? next : y)) : [...list, next] };
+    });
+    setFeeDraft(null);
+  }
+
+  function delFee(id: string) {
+    const used = settings.accounts.filter((a) => a.feeSchedule === id);
+    if (used.length) return alert(`账户「${used.map((a) => a.name).join("、")}」正在使用该方案，请先更换。`);
+    if (!confirm("确定删除该费用方案？已保存的交易保留快照，不受影响。")) return;
+    setSettings((x) => ({ ...x, feeSchedules: (x.feeSchedules || []).filter((f) => f.id !== id) }));
+    if (draft.feeSchedule === id) setDraft((d) => ({ ...d, feeSchedule: "" }));
+    setFeeDraft(null);
+  }
+
+  return (
+    <div className="app-root" style={{ maxWidth: 1100, margin: "0 auto", padding: 16, fontFamily: "system-ui" }}>
+      <div style={{ display: "flex", gap: 12, justifyContent: "space-between", alignItems: "end", flexWrap: "wrap" }}>
+        <div>
           <div style={{ fontSize: 22, fontWeight: 800 }}>个人交易操作台</div>
           <div style={{ color: "#666", fontSize: 13 }}>双模型 · 风控仓位 · 交易日志 · 统计复盘（本地保存）</div>
         </div>
 
         <div style={{ display: "flex", gap: 8 }}>
+          <button onClick={undo} style={btn2} disabled={!undoStack.length} title={undoStack.length ? `撤销：${undoStack[undoStack.length - 1].label}` : ""}>撤销</button>
+          <button onClick={redo} style={btn2} disabled={!redoStack.length} title={redoStack.length ? `重做：${redoStack[redoStack.length - 1].label}` : ""}>重做</button>
           <button onClick={exportJSON} style={btn2}>导出</button>
           <button onClick={() => fileRef.current?.click()} style={btn2}>导入</button>
-          <input ref={fileRef} type="file" accept="application/json" style={{ display: "none" }}
+          <input ref={fileRef} type="file" accept="application/json,.json,.zip,application/zip" style={{ display: "none" }}
             onChange={(e) => { const f = e.target.files?.[0]; if (f) importJSON(f); e.currentTarget.value = ""; }} />
         </div>
       </div>
 
       <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 10, marginTop: 14 }}>
-        <Card title="账户权益" value={`${fmt(settings.equity, 0)}`} sub={`单笔风险：${fmt(settings.maxRiskPct, 2)}%`} />
+        <Card title={viewAcct ? `账户权益 · ${viewAcct.name}` : "合并权益"} value={`${fmt(viewLedger, 0)} ${viewCcy}`} sub={`期初 ${fmt(viewEquity, 0)} · 单笔风险：${fmt(settings.maxRiskPct, 2)}%`} />
         <Card title="已平仓胜率" value={`${fmt(kpi.winRate * 100, 1)}%`} sub={`${kpi.closedCount} 笔`} />
         <Card title="Profit Factor" value={kpi.profitFactor === Infinity ? "∞" : fmt(kpi.profitFactor, 2)} sub={`平均R：${fmt(kpi.avgR, 2)}`} />
-        <Card title="手数单位" value={`${settings.lotSize}`} sub="用于仓位取整" />
+        <Card title="账户" value={viewAcct ? viewAcct.name : `${settings.accounts.length} 个`} sub={viewAcct ? `手数 ${viewAcct.lotSize} · 乘数 ${viewAcct.multiplier}` : `按 ${settings.baseCurrency} 合并`} />
       </div>
 
+      {isFiltered(filter) && (
+        <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 8, fontSize: 13, color: "#b45309" }}>
+          <span>统计与复盘仅包含日志筛选结果：{view.length} / {trades.length} 笔</span>
+          <button style={btn2s} onClick={() => patchFilter(EMPTY_FILTER)}>清除筛选</button>
+        </div>
+      )}
+
+      {jsonImport && importDiff && (
+        <div style={{ marginTop: 14 }}>
+          <Panel>
+            <h3 style={{ margin: 0 }}>导入预览：{jsonImport.name}</h3>
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(5, 1fr)", gap: 10, marginTop: 10 }}>
+              <Mini label="新增" value={importDiff.rows.filter((x) => x.kind === "add").length} />
+              <Mini label="更新" value={importDiff.rows.filter((x) => x.kind === "update").length} />
+              <Mini label="冲突" value={importDiff.rows.filter((x) => x.kind === "conflict").length} />
+              <Mini label="相同" value={importDiff.rows.filter((x) => x.kind === "same").length} />
+              <Mini label="无效" value={importDiff.invalid.length} />
+            </div>
+            {importDiff.invalid.slice(0, 10).map((x) => (
+              <div key={x.i} style={{ color: "#b91c1c", fontSize: 12, marginTop: 6 }}>
+                第 {x.i + 1} 条{x.symbol ? `（${x.symbol}）` : ""}：{x.errors.join("、")}，将被跳过
+              </div>
+            ))}
+            {importDiff.rows.some((x) => x.kind === "conflict") && (
+              <div style={{ color: "#777", fontSize: 12, marginTop: 6 }}>
+                冲突（本地版本更新，或同一时间但内容不同）：
+                {importDiff.rows.filter((x) => x.kind === "conflict").slice(0, 10).map((x) => x.t.symbol).join("、")}
+              </div>
+            )}
+            <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: 10, marginTop: 10 }}>
+              <select style={inp} value={importMode} onChange={(e) => setImportMode(e.target.value as any)}>
+                <option value="merge">按 id 合并</option>
+                <option value="replace">整体替换</option>
+              </select>
+              <select style={inp} value={conflictUse} disabled={importMode === "replace"} onChange={(e) => setConflictUse(e.target.value as any)}>
+                <option value="local">冲突时保留本地</option>
+                <option value="incoming">冲突时使用导入</option>
+              </select>
+              <label style={{ ...checkItem, alignItems: "center" }}>
+                <input type="checkbox" checked={importMode === "replace" || importSettings} disabled={importMode === "replace"} onChange={(e) => setImportSettings(e.target.checked)} />
+                同时导入设置
+              </label>
+            </div>
+            <div style={{ color: "#888", fontSize: 12, marginTop: 8 }}>
+              数据版本 v{jsonImport.data.schema}。替换或覆盖本地记录前会自动备份当前数据（设置 → 数据备份）。
+            </div>
+            <div style={{ display: "flex", gap: 8, marginTop: 10 }}>
+              <button style={btn2} onClick={() => setJsonImport(null)}>取消</button>
+              <button style={btn1} onClick={commitImport}>确认导入</button>
+            </div>
+          </Panel>
+        </div>
+      )}
+
+      {pendingAlerts.length > 0 && (
+        <div style={{ marginTop: 14, border: "1px solid #fca5a5", background: "#fef2f2", borderRadius: 16, padding: 12 }}>
+          {pendingAlerts.slice(0, 5).map((a) => (
+            <div key={a.id} style={{ display: "flex", justifyContent: "space-between", gap: 8, alignItems: "center", marginTop: 4 }}>
+              <div style={{ fontSize: 13 }}>
+                <b>{a.symbol}</b> {ALERT_LABEL[a.kind]}：现价 {fmt(a.price, 2)} / 价位 {fmt(a.level, 2)}
+                <span style={{ color: "#999", marginLeft: 6 }}>{new Date(a.ts).toLocaleString()}</span>
+              </div>
+              <button style={btn2s} onClick={() => ackAlerts([a.id])}>知道了</button>
+            </div>
+          ))}
+          {pendingAlerts.length > 1 && (
+            <button style={{ ...btn2s, marginTop: 8 }} onClick={() => ackAlerts(pendingAlerts.map((a) => a.id))}>
+              全部知道了（{pendingAlerts.length}）
+            </button>
+          )}
+        </div>
+      )}
+
       <div style={{ display: "flex", gap: 8, marginTop: 14, flexWrap: "wrap" }}>
         <TabButton onClick={() => setTab("dashboard")} active={tab === "dashboard"}>仪表盘</TabButton>
         <TabButton onClick={() => setTab("new")} active={tab === "new"}>新建计划</TabButton>
         <TabButton onClick={() => setTab("log")} active={tab === "log"}>交易日志</TabButton>
+        <TabButton onClick={() => setTab("review")} active={tab === "review"}>复盘</TabButton>
+        <TabButton onClick={() => setTab("backtest")} active={tab === "backtest"}>回测</TabButton>
+        <TabButton onClick={() => setTab("import")} active={tab === "import"}>导入成交</TabButton>
         <TabButton onClick={() => setTab("settings")} active={tab === "settings"}>设置</TabButton>
       </div>
 
       {tab === "dashboard" && (
         <div style={{ marginTop: 14 }}>
+          {settings.accounts.length > 1 && (
+            <div style={{ marginBottom: 12 }}>
+            <Panel>
+              <h3 style={{ margin: 0 }}>账户概览</h3>
+              <div style={{ overflowX: "auto", marginTop: 10 }}>
+                <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+                  <thead>
+                    <tr style={{ textAlign: "left", color: "#666" }}>
+                      <th style={th}>账户</th>
+                      <th style={th}>币种 / 汇率</th>
+                      <th style={th}>期初 / 出入金</th>
+                      <th style={th}>已实现</th>
+                      <th style={th}>浮动</th>
+                      <th style={th}>交易 / 持仓</th>
+                      <th style={th}>折合 {settings.baseCurrency}</th>
+                      <th style={th}></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {accountRows.map((x) => (
+                      <tr key={x.a.id} style={{ borderTop: "1px solid #eee", background: filter.account === x.a.id ? "#f5f5f5" : undefined }}>
+                        <td style={{ ...td, fontWeight: 800 }}>{x.a.name}</td>
+                        <td style={td}>{x.a.currency}{x.a.currency !== settings.baseCurrency ? ` · ${fmt(x.rate, 4)}` : ""}</td>
+                        <td style={td}>{fmt(x.a.equity, 0)} / {fmt(x.ledger.flowsNet, 0)}</td>
+                        <td style={{ ...td, color: x.ledger.realized >= 0 ? "#047857" : "#b91c1c" }}>{fmt(x.ledger.realized, 0)}</td>
+                        <td style={{ ...td, color: x.unreal >= 0 ? "#047857" : "#b91c1c" }}>{fmt(x.unreal, 0)}</td>
+                        <td style={td}>{x.count} / {x.open}</td>
+                        <td style={{ ...td, fontWeight: 800 }}>{fmt(x.total, 0)}</td>
+                        <td style={td}>
+                          <button style={btn2s} onClick={() => patchFilter({ account: filter.account === x.a.id ? "" : x.a.id })}>
+                            {filter.account === x.a.id ? "看合并" : "只看此账户"}
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                    <tr style={{ borderTop: "2px solid #ddd" }}>
+                      <td style={{ ...td, fontWeight: 800 }} colSpan={6}>合计</td>
+                      <td style={{ ...td, fontWeight: 800 }}>{fmt(accountRows.reduce((s, x) => s + x.total, 0), 0)}</td>
+                      <td style={td}></td>
+                    </tr>
+                  </tbody>
+                </table>
+              </div>
+              {missingFx.length > 0 && (
+                <div style={{ color: "#b45309", fontSize: 12, marginTop: 8 }}>⚠️ 未设置汇率：{missingFx.join("、")}（暂按 1 折算，请到「设置」填写）</div>
+              )}
+            </Panel>
+            </div>
+          )}
+
           <Panel>
-            <h3 style={{ margin: 0 }}>关键统计（已平仓）</h3>
+            <h3 style={{ margin: 0 }}>关键统计（已平仓 · {viewCcy}）</h3>
             <div style={{ display: "grid", gridTemplateColumns: "repeat(2, 1fr)", gap: 10, marginTop: 10 }}>
               <Mini label="胜率" value={`${fmt(kpi.winRate * 100, 1)}%`} />
               <Mini label="Profit Factor" value={kpi.profitFactor === Infinity ? "∞" : fmt(kpi.profitFactor, 2)} />
@@ -439,14 +3694,209 @@ export default function TradingConsole() {
               提示：这是自用复盘控制台，后续可加手续费/滑点与云同步。
             </div>
           </Panel>
+
+          <div style={{ marginTop: 12 }}>
+            <Panel>
+              <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+                <h3 style={{ margin: 0 }}>持仓盯市</h3>
+                <button style={btn2s} onClick={refreshQuotes}>刷新行情（{settings.quoteSource === "http" ? "HTTP" : "手动"}）</button>
+              </div>
+              <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 10, marginTop: 10 }}>
+                <Mini label="持仓数" value={marks.length} />
+                <Mini label="已标价" value={`${marks.filter((x) => x.q).length} / ${marks.length}`} />
+                <Mini label="浮动盈亏合计" value={fmt(unrealized, 0)} />
+                <Mini label="含浮盈权益" value={fmt(viewLedger + unrealized, 0)} />
+              </div>
+              {quoteErr && <div style={{ color: "#b91c1c", fontSize: 12, marginTop: 8 }}>{quoteErr}</div>}
+              {marks.length > 0 && (
+                <div style={{ overflowX: "auto", marginTop: 10 }}>
+                  <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+                    <thead>
+                      <tr style={{ textAlign: "left", color: "#666" }}>
+                        <th style={th}>标的</th>
+                        <th style={th}>持仓 @ 均价</th>
+                        <th style={th}>最新价</th>
+                        <th style={th}>浮动盈亏</th>
+                        <th style={th}>浮动R</th>
+                        <th style={th}>距止损</th>
+                        <th style={th}>距目标</th>
+                        <th style={th}></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {marks.map(({ t, L, q, m }) => (
+                        <tr key={t.id} style={{ borderTop: "1px solid #eee" }}>
+                          <td style={{ ...td, fontWeight: 800 }}>{t.symbol}{t.name ? ` · ${t.name}` : ""}</td>
+                          <td style={td}>{fmt(L.openQty, 0)} @ {fmt(L.avgOpen, 2)}</td>
+                          <td style={td}>
+                            {q ? fmt(q.price, 2) : "-"}
+                            {q && (
+                              <div style={{ color: isStale(q, settings.staleMin) ? "#b45309" : "#999", fontSize: 12 }}>
+                                {isStale(q, settings.staleMin) ? "⚠️ 过期 · " : ""}{new Date(q.ts).toLocaleString()}
+                              </div>
+                            )}
+                          </td>
+                          <td style={td}>{m ? <span style={{ color: m.unrealized >= 0 ? "#047857" : "#b91c1c", fontWeight: 800 }}>{fmt(m.unrealized, 0)}</span> : "-"}</td>
+                          <td style={td}>{m ? <RVal r={m.openR} /> : "-"}</td>
+                          <td style={td}>{m ? `${fmt(m.toStop, 2)}%` : "-"}</td>
+                          <td style={td}>{m && m.toTarget !== undefined ? `${fmt(m.toTarget, 2)}%` : "-"}</td>
+                          <td style={td}><button style={btn2s} onClick={() => markPrice(t.symbol)}>标价</button></td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </Panel>
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <Panel>
+              <h3 style={{ margin: 0 }}>提醒记录</h3>
+              {alerts.length === 0 ? (
+                <div style={{ color: "#666", marginTop: 10 }}>暂无提醒。标价或刷新行情后自动检查止损/目标。</div>
+              ) : (
+                <div style={{ overflowX: "auto", marginTop: 10, maxHeight: 320, overflowY: "auto" }}>
+                  <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+                    <thead>
+                      <tr style={{ textAlign: "left", color: "#666" }}>
+                        <th style={th}>时间</th>
+                        <th style={th}>标的</th>
+                        <th style={th}>类型</th>
+                        <th style={th}>现价 / 价位</th>
+                        <th style={th}>确认</th>
+                        <th style={th}>到减仓用时</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {alerts.slice(0, 100).map((a) => {
+                        const t = trades.find((x) => x.id === a.tradeId);
+                        const ms = t ? reactionMs(t, a) : undefined;
+                        return (
+                          <tr key={a.id} style={{ borderTop: "1px solid #eee" }}>
+                            <td style={td}>{new Date(a.ts).toLocaleString()}</td>
+                            <td style={{ ...td, fontWeight: 800 }}>{a.symbol}</td>
+                            <td style={td}>{ALERT_LABEL[a.kind]}</td>
+                            <td style={td}>{fmt(a.price, 2)} / {fmt(a.level, 2)}</td>
+                            <td style={td}>{a.ackAt ? `${fmtDuration(a.ackAt - a.ts)}后` : "未确认"}</td>
+                            <td style={td}>{ms !== undefined ? fmtDuration(ms) : t ? "-" : "交易已删除"}</td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </Panel>
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <Panel>
+              <h3 style={{ margin: 0 }}>权益曲线（按平仓时间 · 时间加权）</h3>
+              <div style={{ display: "grid", gridTemplateColumns: "repeat(5, 1fr)", gap: 10, marginTop: 10 }}>
+                <Mini label="账本权益" value={fmt(viewLedger, 0)} />
+                <Mini label="时间加权收益" value={`${fmt(curve.twr * 100, 2)}%`} />
+                <Mini label="最大回撤" value={fmt(curve.maxDD, 0)} />
+                <Mini label="最大回撤%" value={`${fmt(curve.maxDDPct * 100, 2)}%`} />
+                <Mini label="最长回撤期" value={`${fmt(curve.maxDDDuration / 86400000, 0)} 天${curve.underwater ? "（进行中）" : ""}`} />
+              </div>
+              {curve.points.length < 2 ? (
+                <div style={{ color: "#666", marginTop: 10 }}>至少需要 2 笔已平仓交易才能绘制曲线。</div>
+              ) : (
+                <EquityChart base={viewEquity} points={curve.points} />
+              )}
+            </Panel>
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <Panel>
+              <h3 style={{ margin: 0 }}>执行质量（计划 vs 实际成交）</h3>
+              {execStats.n === 0 ? (
+                <div style={{ color: "#666", marginTop: 10 }}>暂无已核对的成交。在交易日志的「成交」里核对计划价成交，或导入券商成交单。</div>
+              ) : (
+                <>
+                  <div style={{ display: "grid", gridTemplateColumns: "repeat(6, 1fr)", gap: 10, marginTop: 10 }}>
+                    <Mini label="已核对交易" value={execStats.n} />
+                    <Mini label="入场滑点/单位" value={fmt(execStats.entrySlip, 3)} />
+                    <Mini label="止损出场滑点/单位" value={fmt(execStats.stopSlip, 3)} />
+                    <Mini label="目标出场滑点/单位" value={fmt(execStats.targetSlip, 3)} />
+                    <Mini label="执行损失合计" value={`${fmt(execStats.rLost, 2)}R`} />
+                    <Mini label="每笔执行损失" value={`${fmt(execStats.rLostAvg, 3)}R`} />
+                  </div>
+                  <div style={{ overflowX: "auto", marginTop: 10 }}>
+                    <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+                      <thead>
+                        <tr style={{ textAlign: "left", color: "#666" }}>
+                          <th style={th}>账户</th>
+                          <th style={th}>已核对交易</th>
+                          <th style={th}>实际平均滑点/单位</th>
+                          <th style={th}>当笔设定滑点</th>
+                          <th style={th}>账户当前设定</th>
+                          <th style={th}>实际 / 设定</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {execRows.map(({ a, x }) => (
+                          <tr key={a.id} style={{ borderTop: "1px solid #eee" }}>
+                            <td style={{ ...td, fontWeight: 800 }}>{a.name}</td>
+                            <td style={td}>{x.n}</td>
+                            <td style={td}>{fmt(x.actual, 3)}</td>
+                            <td style={td}>{fmt(x.assumed, 3)}</td>
+                            <td style={td}>{fmt(a.slippage, 3)}</td>
+                            <td style={{ ...td, color: x.assumed > 0 && x.actual > x.assumed ? "#b91c1c" : "#047857", fontWeight: 800 }}>
+                              {x.assumed > 0 ? `${fmt(x.actual / x.assumed, 2)}x` : "-"}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <div style={{ color: "#888", fontSize: 12, marginTop: 8 }}>
+                    入场按计划入场价、出场按成交时生效的止损或目标价计算滑点，不利为正；离止损/目标都较远的主动出场不计入。实际 / 设定 &gt; 1 说明设定滑点偏乐观，仓位计算低估了成本。
+                  </div>
+                </>
+              )}
+            </Panel>
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <Panel>
+              <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8 }}>
+                <h3 style={{ margin: 0 }}>{period === "month" ? "月度" : "周度"}盈亏</h3>
+                <div style={{ display: "flex", gap: 6 }}>
+                  <TabButton onClick={() => setPeriod("month")} active={period === "month"}>按月</TabButton>
+                  <TabButton onClick={() => setPeriod("week")} active={period === "week"}>按周</TabButton>
+                </div>
+              </div>
+              {periodPnL.length === 0 ? (
+                <div style={{ color: "#666", marginTop: 10 }}>暂无已平仓交易。</div>
+              ) : (
+                <BarChart bars={periodPnL.map((x) => ({ label: x.key, value: x.pnl }))} />
+              )}
+            </Panel>
+          </div>
         </div>
       )}
 
       {tab === "new" && (
         <div style={{ marginTop: 14, display: "grid", gap: 12 }}>
           <Panel>
-            <h3 style={{ margin: 0 }}>新建交易计划</h3>
-            <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: 10, marginTop: 10 }}>
+            <h3 style={{ margin: 0 }}>{editTrade ? `编辑交易：${editTrade.symbol}` : "新建交易计划"}</h3>
+            {editTrade && (
+              <div style={{ color: "#777", fontSize: 13, marginTop: 6 }}>
+                创建于 {new Date(editTrade.createdAt).toLocaleString()} · {STATUS_LABEL[editTrade.status]} ·{" "}
+                {editPending ? "模型不随编辑改变；计划数量按当前仓位建议重算。" : "模型与数量不随编辑改变；数量请在「成交」中调整。"}
+              </div>
+            )}
+            <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr 1fr", gap: 10, marginTop: 10 }}>
+              <select style={inp} value={acct.id} disabled={!!editTrade} title="账户" onChange={(e) => {
+                const a = findAccount(settings.accounts, e.target.value);
+                setDraft((d) => ({ ...d, account: a.id, feePct: a.feePct, exitFeePct: a.exitFeePct, slippage: a.slippage, feeSchedule: a.feeSchedule || "", multiplier: d.instrument === "stock" ? INSTRUMENT_DEFAULTS.stock.multiplier : a.multiplier }));
+              }}>
+                {settings.accounts.map((a) => (
+                  <option key={a.id} value={a.id}>{a.name}（{a.currency}{a.multiplier !== 1 ? ` ×${a.multiplier}` : ""}）</option>
+                ))}
+              </select>
               <input style={inp} placeholder="代码（如 600089）" value={draft.symbol} onChange={(e) => setDraft((d) => ({ ...d, symbol: e.target.value }))} />
               <input style={inp} placeholder="名称（可选）" value={draft.name} onChange={(e) => setDraft((d) => ({ ...d, name: e.target.value }))} />
               <input style={inp} placeholder="行业（可选）" value={draft.industry} onChange={(e) => setDraft((d) => ({ ...d, industry: e.target.value }))} />
@@ -458,12 +3908,14 @@ export default function TradingConsole() {
                 <option value="swing">波段（2–4周）</option>
               </select>
 
-              <select style={inp} value={draft.model} onChange={(e) => {
+              <select style={inp} value={model.id} disabled={!!editTrade} onChange={(e) => {
                 const m = e.target.value as ModelType;
-                setDraft((d) => ({ ...d, model: m, checklist: makeChecklist(m) }));
+                setDraft((d) => ({ ...d, model: m, checklist: makeChecklist(findModel(settings.models, m)) }));
               }}>
-                <option value="trend">趋势模型A</option>
-                <option value="rebound">反弹模型B</option>
+                {editTrade && <option value={model.id}>{model.name} v{model.version}</option>}
+                {!editTrade && settings.models.map((m) => (
+                  <option key={m.id} value={m.id}>{m.name} v{m.version}</option>
+                ))}
               </select>
 
               <div style={{ ...miniBox }}>
@@ -473,7 +3925,7 @@ export default function TradingConsole() {
 
               <div style={{ ...miniBox }}>
                 <div style={{ color: "#666", fontSize: 12 }}>结论</div>
-                <div style={{ fontSize: 14, fontWeight: 800 }}>{verdict(draft.model, s)}</div>
+                <div style={{ fontSize: 14, fontWeight: 800 }}>{verdict(model, s, draft.checklist)}</div>
               </div>
             </div>
 
@@ -483,8 +3935,15 @@ export default function TradingConsole() {
               <input style={inp} type="number" placeholder="目标价（可选）" value={draft.target || ""} onChange={(e) => setDraft((d) => ({ ...d, target: Number(e.target.value) }))} />
             </div>
 
+            {(!editTrade || editPending) && (
+              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10, marginTop: 10 }}>
+                <input style={inp} type="number" placeholder="触发价（计划用，缺省=入场价）" title="触发价" value={draft.trigger || ""} onChange={(e) => setDraft((d) => ({ ...d, trigger: Number(e.target.value) }))} />
+                <input style={inp} type="date" title="计划到期日（只对计划生效，过期未触发自动转为已过期；观察不会过期）" value={draft.expiry} onChange={(e) => setDraft((d) => ({ ...d, expiry: e.target.value }))} />
+              </div>
+            )}
+
             {/* ===== 成本与方向设置 ===== */}
-           <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr 1fr", gap: 10, marginTop: 10 }}>
+           <div style={{ display: "grid", gridTemplateColumns: "repeat(5, 1fr)", gap: 10, marginTop: 10 }}>
 
              <select
                style={inp}
@@ -495,10 +3954,19 @@ export default function TradingConsole() {
                <option value="short">做空</option>
              </select>
 
+             <select style={inp} value={draft.feeSchedule} title="费用方案" onChange={(e) => setDraft((d) => ({ ...d, feeSchedule: e.target.value }))}>
+               <option value="">简单费率</option>
+               {allSchedules.map((f) => (
+                 <option key={f.id} value={f.id}>{f.name}</option>
+               ))}
+             </select>
+
              <input
                style={inp}
                type="number"
                placeholder="手续费%（双边）"
+               title={draftFees ? "已选费用方案，按方案计费" : "手续费%（双边）"}
+               disabled={!!draftFees}
                value={draft.feePct}
                onChange={(e) => setDraft(d => ({ ...d, feePct: Number(e.target.value) }))}
              />
@@ -515,18 +3983,71 @@ export default function TradingConsole() {
                style={inp}
                type="number"
                placeholder="平仓额外费%（印花税）"
+               title={draftFees ? "已选费用方案，按方案计费" : "平仓额外费%（印花税）"}
+               disabled={!!draftFees}
                value={draft.exitFeePct}
                onChange={(e) => setDraft(d => ({ ...d, exitFeePct: Number(e.target.value) }))}
              />
            </div>
 
+            {/* ===== 合约规格 ===== */}
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(5, 1fr)", gap: 10, marginTop: 10 }}>
+              <select style={inp} value={draft.instrument} title="品种" onChange={(e) => {
+                const k = e.target.value as Instrument;
+                const d0 = INSTRUMENT_DEFAULTS[k];
+                setDraft((d) => ({ ...d, instrument: k, ...d0, multiplier: k !== "stock" && acct.multiplier !== 1 ? acct.multiplier : d0.multiplier }));
+              }}>
+                {(Object.keys(INSTRUMENT_LABEL) as Instrument[]).map((k) => (
+                  <option key={k} value={k}>{INSTRUMENT_LABEL[k]}</option>
+                ))}
+              </select>
+              <input style={inp} type="number" placeholder="合约乘数" title="合约乘数" disabled={draft.instrument === "stock"} value={draft.multiplier} onChange={(e) => setDraft((d) => ({ ...d, multiplier: Number(e.target.value) }))} />
+              <input style={inp} type="number" placeholder="最小变动价位" title="最小变动价位" value={draft.tickSize || ""} onChange={(e) => setDraft((d) => ({ ...d, tickSize: Number(e.target.value) }))} />
+              <input style={inp} type="number" placeholder="每张固定佣金" title="每张固定佣金" value={draft.contractFee || ""} onChange={(e) => setDraft((d) => ({ ...d, contractFee: Number(e.target.value) }))} />
+              <input style={inp} type="number" placeholder="保证金比例%" title="保证金比例%（股票/买入期权为 100）" value={draft.marginPct} onChange={(e) => setDraft((d) => ({ ...d, marginPct: Number(e.target.value) }))} />
+            </div>
 
-            <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 10, marginTop: 10 }}>
-              <Mini label="单股风险" value={fmt(sizing.riskPer, 4)} />
+
+            {(!editTrade || editPending) && (
+            <>
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(6, 1fr)", gap: 10, marginTop: 10 }}>
+              <Mini label={draft.instrument === "stock" ? "单股风险" : `每张风险（${draft.tickSize > 0 ? `${fmt(sizing.riskPer / draft.tickSize, 0)} 跳` : "-"}）`} value={fmt(sizing.riskPer * draftMult, 4)} />
               <Mini label="本笔最大亏损" value={fmt(sizing.riskMoney, 0)} />
-              <Mini label="建议数量(取整)" value={fmt(sizing.size, 0)} />
-              <Mini label="建议仓位%" value={fmt(sizing.posPct, 2)} />
+              <Mini label={draft.instrument === "stock" ? "建议数量(取整)" : "建议张数"} value={fmt(limitCheck.cap, 0)} />
+              <Mini label="建议仓位%" value={fmt(acctEq > 0 ? (limitCheck.cap * Number(draft.entry) * draftMult) / acctEq * 100 : 0, 2)} />
+              <Mini label="所需保证金" value={fmt(limitCheck.cap * Number(draft.entry) * draftMult * (Number(draft.marginPct) / 100), 0)} />
+              <Mini label="杠杆" value={`${fmt(acctEq > 0 ? (limitCheck.cap * Number(draft.entry) * draftMult) / acctEq : 0, 2)}x`} />
+            </div>
+            {sizing.limitedBy === "margin" && (
+              <div style={{ color: "#b45309", fontSize: 13, marginTop: 8 }}>
+                ⚠️ 可用保证金 {fmt(availMargin, 0)} 不足以按风险预算建仓，数量已按保证金上限计算。
+              </div>
+            )}
+            {feePreview && (
+              <div style={{ color: "#777", fontSize: 13, marginTop: 8 }}>
+                {feePreview.name} 费用（按建议数量，开仓@入场 + 平仓@止损）：
+                {feePreview.parts.map((p) => `${p.name} ${fmt(p.amount, 2)}`).join(" · ")} · 合计 {fmt(feePreview.total, 2)}
+              </div>
+            )}
+
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 10, marginTop: 10 }}>
+              <Mini label="当前持仓风险（heat）" value={`${fmt(acctEq > 0 ? (portfolio.heat / acctEq) * 100 : 0, 2)}%`} />
+              <Mini label="持仓数" value={`${portfolio.positions}${settings.maxPositions ? ` / ${settings.maxPositions}` : ""}`} />
+              <Mini label="本行业敞口%" value={fmt(acctEq > 0 ? (limitCheck.indNow / acctEq) * 100 : 0, 2)} />
+              <Mini label="本标的敞口%" value={fmt(acctEq > 0 ? (limitCheck.symNow / acctEq) * 100 : 0, 2)} />
             </div>
+            {limitCheck.breaches.length > 0 && (
+              <div style={{ color: limitCheck.blocked ? "#b91c1c" : "#b45309", fontSize: 13, marginTop: 8 }}>
+                {limitCheck.breaches.map((b) => <div key={b}>⚠️ {b}</div>)}
+                <div>
+                  {limitCheck.blocked
+                    ? "压缩仓位也无法满足限制，保存时需填写理由。"
+                    : `建议数量已按上限从 ${fmt(sizing.size, 0)} 压缩为 ${fmt(limitCheck.cap, 0)}。`}
+                </div>
+              </div>
+            )}
+            </>
+            )}
           </Panel>
 
           <Panel>
@@ -541,7 +4062,7 @@ export default function TradingConsole() {
                   />
                   <div>
                     <div style={{ fontWeight: 700 }}>{it.t}</div>
-                    <div style={{ fontSize: 12, color: "#777" }}>权重：{it.w}</div>
+                    <div style={{ fontSize: 12, color: "#777" }}>权重：{it.w}{it.mandatory ? " · 必选" : ""}</div>
                   </div>
                 </label>
               ))}
@@ -568,20 +4089,105 @@ export default function TradingConsole() {
               onChange={(e) => setDraft((d) => ({ ...d, notes: e.target.value }))}
             />
 
+            {!editTrade && (
+              <div style={{ marginTop: 10 }}>
+                <AttachZone label="拖入/粘贴计划时的图表截图或研究 PDF（点击选择文件），保存计划时一并存入" onFiles={(files) => setDraftFiles((x) => [...x, ...acceptFiles(files)])} />
+                {draftFiles.length > 0 && (
+                  <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 6, fontSize: 12 }}>
+                    {draftFiles.map((f, i) => (
+                      <span key={i} style={{ ...miniBox, padding: "4px 8px" }}>
+                        {f.type === "application/pdf" ? "📄" : "🖼"} {f.name || "粘贴图片"}{" "}
+                        <button style={btn2s} onClick={() => setDraftFiles((x) => x.filter((_, j) => j !== i))}>×</button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
             <div style={{ display: "flex", gap: 8, marginTop: 10 }}>
-              <button style={btn2} onClick={resetDraft}>重置</button>
-              <button style={btn1} onClick={addTrade}>保存到交易日志</button>
+              {editTrade ? (
+                <>
+                  <button style={btn2} onClick={cancelEdit}>取消</button>
+                  <button style={btn1} onClick={() => saveEdit()}>保存修改</button>
+                  {editTrade.status === "watch" && <button style={btn1} onClick={() => saveEdit(true)}>保存并转为计划</button>}
+                </>
+              ) : (
+                <>
+                  <button style={btn2} onClick={resetDraft}>重置</button>
+                  <button style={btn2} onClick={() => addTrade("watch")}>加入观察</button>
+                  <button style={btn2} onClick={() => addTrade("planned")}>保存为计划</button>
+                  <button style={btn1} onClick={() => addTrade("open")}>直接开仓</button>
+                </>
+              )}
+            </div>
+          </Panel>
+        </div>
+      )}
+
+      {tab === "log" && (
+        <div style={{ marginTop: 14 }}>
+          <Panel>
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+              <h3 style={{ margin: 0 }}>交易日志</h3>
+              <div style={{ display: "flex", gap: 6 }}>
+                <button style={btn2s} disabled={!sorted.length} onClick={exportTradesCSV}>导出交易 CSV</button>
+                <button style={btn2s} disabled={!sorted.length} onClick={exportFillsCSV}>导出成交 CSV</button>
+              </div>
+            </div>
+            <div style={{ display: "grid", gridTemplateColumns: "1fr 2fr 1fr 1fr 1fr 1fr", gap: 8, marginTop: 10 }}>
+              <select style={inp} value={filter.account} onChange={(e) => patchFilter({ account: e.target.value })}>
+                <option value="">全部账户</option>
+                {settings.accounts.map((a) => (
+                  <option key={a.id} value={a.id}>{a.name}</option>
+                ))}
+              </select>
+              <input style={inp} placeholder="搜索代码/名称/备注" value={filter.q} onChange={(e) => patchFilter({ q: e.target.value })} />
+              <select style={inp} value={filter.status} onChange={(e) => patchFilter({ status: e.target.value as any })}>
+                <option value="">全部状态</option>
+                {(Object.keys(STATUS_LABEL) as Status[]).map((k) => (
+                  <option key={k} value={k}>{STATUS_LABEL[k]}</option>
+                ))}
+              </select>
+              <select style={inp} value={filter.model} onChange={(e) => patchFilter({ model: e.target.value })}>
+                <option value="">全部模型</option>
+                {settings.models.map((m) => (
+                  <option key={m.id} value={m.id}>{m.name}</option>
+                ))}
+              </select>
+              <select style={inp} value={filter.timeframe} onChange={(e) => patchFilter({ timeframe: e.target.value as any })}>
+                <option value="">全部周期</option>
+                <option value="mid">中线</option>
+                <option value="swing">波段</option>
+              </select>
+              <select style={inp} value={filter.side} onChange={(e) => patchFilter({ side: e.target.value as any })}>
+                <option value="">多空</option>
+                <option value="long">做多</option>
+                <option value="short">做空</option>
+              </select>
+            </div>
+            <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr 1fr 1fr auto", gap: 8, marginTop: 8 }}>
+              <select style={inp} value={filter.industry} onChange={(e) => patchFilter({ industry: e.target.value })}>
+                <option value="">全部行业</option>
+                {industries.map((x) => <option key={x} value={x}>{x}</option>)}
+              </select>
+              <select style={inp} value={filter.tag} onChange={(e) => patchFilter({ tag: e.target.value })}>
+                <option value="">全部标签</option>
+                {allTags.map((x) => <option key={x} value={x}>{x}</option>)}
+              </select>
+              <input style={inp} type="date" title="开仓日期起" value={filter.from} onChange={(e) => patchFilter({ from: e.target.value })} />
+              <input style={inp} type="date" title="开仓日期止" value={filter.to} onChange={(e) => patchFilter({ to: e.target.value })} />
+              <select style={inp} value={filter.pnl} onChange={(e) => patchFilter({ pnl: e.target.value as any })}>
+                <option value="">盈亏不限</option>
+                <option value="win">盈利</option>
+                <option value="loss">亏损</option>
+              </select>
+              <button style={btn2s} onClick={() => patchFilter(EMPTY_FILTER)}>清除</button>
             </div>
-          </Panel>
-        </div>
-      )}
-
-      {tab === "log" && (
-        <div style={{ marginTop: 14 }}>
-          <Panel>
-            <h3 style={{ margin: 0 }}>交易日志</h3>
             {trades.length === 0 ? (
               <div style={{ color: "#666", marginTop: 10 }}>暂无记录。去「新建计划」添加第一笔交易。</div>
+            ) : sorted.length === 0 ? (
+              <div style={{ color: "#666", marginTop: 10 }}>没有符合筛选条件的交易。</div>
             ) : (
               <div style={{ overflowX: "auto", marginTop: 10 }}>
                 <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
@@ -589,68 +4195,1110 @@ export default function TradingConsole() {
                     <tr style={{ textAlign: "left", color: "#666" }}>
                       <th style={th}>标的</th>
                       <th style={th}>模型</th>
-                      <th style={th}>得分</th>
+                      <th style={thSort} onClick={() => toggleSort("score")}>得分{sortMark("score")}</th>
                       <th style={th}>入/损/目</th>
-                      <th style={th}>数量/仓位</th>
-                      <th style={th}>状态</th>
-                      <th style={th}>PnL</th>
-                      <th style={th}>R</th>
+                      <th style={thSort} onClick={() => toggleSort("positionPct")}>数量/仓位{sortMark("positionPct")}</th>
+                      <th style={thSort} onClick={() => toggleSort("date")}>状态/日期{sortMark("date")}</th>
+                      <th style={thSort} onClick={() => toggleSort("pnl")}>PnL{sortMark("pnl")}</th>
+                      <th style={thSort} onClick={() => toggleSort("r")}>R{sortMark("r")}</th>
                       <th style={th}>操作</th>
                     </tr>
                   </thead>
                   <tbody>
-                    {trades.map((t) => (
-                      <tr key={t.id} style={{ borderTop: "1px solid #eee" }}>
+                    {pageRows.map((t) => {
+                      const L = calcLedger(t);
+                      return (
+                      <React.Fragment key={t.id}>
+                      <tr style={{ borderTop: "1px solid #eee" }}>
                         <td style={td}>
                           <div style={{ fontWeight: 800 }}>{t.symbol}{t.name ? ` · ${t.name}` : ""}</div>
                           <div style={{ color: "#777", fontSize: 12 }}>{t.industry || "-"} · {t.timeframe === "mid" ? "中线" : "波段"}</div>
+                          {settings.accounts.length > 1 && (
+                            <div style={{ color: "#777", fontSize: 12 }}>{findAccount(settings.accounts, t.account).name} · {t.currency}</div>
+                          )}
+                          {(t.instrument || "stock") !== "stock" && (
+                            <div style={{ color: "#777", fontSize: 12 }}>{INSTRUMENT_LABEL[t.instrument!]} · ×{mult(t)} · 保证金 {fmt(t.marginPct ?? 100, 0)}%</div>
+                          )}
                           <div style={{ color: "#999", fontSize: 12 }}>标签：{(t.tags || []).join("、") || "-"}</div>
+                          {t.riskOverride && <div style={{ color: "#b45309", fontSize: 12 }}>风控豁免：{t.riskOverride}</div>}
+                          {(t.attachments || []).length > 0 && <Thumbs list={t.attachments!} urls={fileUrls} onOpen={setLightbox} />}
+                        </td>
+                        <td style={td}>
+                          <div>{tradeModel(t, settings.models).name}</div>
+                          <div style={{ color: "#999", fontSize: 12 }}>v{tradeModel(t, settings.models).version}</div>
                         </td>
-                        <td style={td}>{t.model === "trend" ? "趋势" : "反弹"}</td>
                         <td style={td}>
                           <div style={{ fontWeight: 800 }}>{t.score}</div>
-                          <div style={{ color: "#777", fontSize: 12 }}>{verdict(t.model, t.score)}</div>
+                          <div style={{ color: "#777", fontSize: 12 }}>{verdict(tradeModel(t, settings.models), t.score, t.checklist)}</div>
                         </td>
                         <td style={td}>
                           <div>入 {fmt(t.entry, 2)}</div>
-                          <div>损 {fmt(t.stop, 2)}</div>
+                          <div>损 {fmt(currentStop(t), 2)}{currentStop(t) !== t.stop ? `（初 ${fmt(t.stop, 2)}）` : ""}</div>
                           <div>目 {t.target ? fmt(t.target, 2) : "-"}</div>
+                          <div style={{ color: "#777", fontSize: 12 }}>均入 {L.entryQty ? fmt(L.avgEntry, 2) : "-"} · 均出 {L.exitQty ? fmt(L.avgExit, 2) : "-"}</div>
                         </td>
                         <td style={td}>
                           <div>{fmt(t.size, 0)}</div>
                           <div style={{ color: "#777", fontSize: 12 }}>{fmt(t.positionPct, 2)}%</div>
+                          {t.status === "open" && L.exitQty > 0 && (
+                            <div style={{ color: "#999", fontSize: 12 }}>剩余 {fmt(L.openQty, 0)}</div>
+                          )}
                         </td>
                         <td style={td}>
-                          {t.status === "open" ? "持仓中" : "已平仓"}
+                          {t.status === "open" && L.exitQty > 0 ? "部分平仓" : STATUS_LABEL[t.status]}
                           <div style={{ color: "#999", fontSize: 12 }}>{new Date(t.createdAt).toLocaleDateString()}</div>
+                          {t.status === "planned" && (
+                            <div style={{ color: "#777", fontSize: 12 }}>
+                              触发 {fmt(t.trigger || t.entry, 2)}
+                              {quotes[t.symbol] ? `（现价 ${fmt(quotes[t.symbol].price, 2)}，差 ${fmt(((t.trigger || t.entry) / quotes[t.symbol].price - 1) * 100, 2)}%）` : ""}
+                              {t.expiresAt ? ` · ${new Date(t.expiresAt).toLocaleDateString()} 到期` : ""}
+                            </div>
+                          )}
+                          {(t.status === "cancelled" || t.status === "expired") && (
+                            <div style={{ color: "#777", fontSize: 12 }}>
+                              {t.cancelReason ? `${t.cancelReason} · ` : ""}
+                              {typeof shadowR(t) === "number"
+                                ? `假设出场 ${fmt(t.shadow!.exit, 2)}（${fmt(shadowR(t), 2)}R${t.shadow!.auto ? "，行情触及" : ""}）`
+                                : t.triggeredAt
+                                ? "已到达触发价，等待止损/目标"
+                                : "尚未到达触发价，不计假设结果"}
+                            </div>
+                          )}
                         </td>
                         <td style={td}>
-                          {t.status === "closed" ? (
+                          {typeof t.pnl === "number" ? (
                             <span style={{ color: (t.pnl || 0) >= 0 ? "#047857" : "#b91c1c", fontWeight: 800 }}>
                               {fmt(t.pnl, 0)}
                             </span>
                           ) : "-"}
+                          {t.status === "open" && L.exitQty > 0 && <div style={{ color: "#999", fontSize: 12 }}>已实现</div>}
+                          {L.openQty > 0 && (
+                            <div style={{ color: "#999", fontSize: 12 }}>未实现：{fmt(L.openQty, 0)} @ {fmt(L.avgOpen, 2)}</div>
+                          )}
+                          {L.openQty > 0 && quotes[t.symbol] && (
+                            <div style={{ color: isStale(quotes[t.symbol], settings.staleMin) ? "#b45309" : "#777", fontSize: 12 }}>
+                              浮动 {fmt(calcMark(t, quotes[t.symbol].price).unrealized, 0)}（现价 {fmt(quotes[t.symbol].price, 2)}）
+                            </div>
+                          )}
                         </td>
                         <td style={td}>
-                          {t.status === "closed" ? (
+                          {hasR(t) ? (
                             <span style={{ color: (t.r || 0) >= 0 ? "#047857" : "#b91c1c", fontWeight: 800 }}>
                               {fmt(t.r, 2)}
                             </span>
                           ) : "-"}
+                          {L.openQty > 0 && quotes[t.symbol] && (
+                            <div style={{ color: "#777", fontSize: 12 }}>浮动 {fmt(calcMark(t, quotes[t.symbol].price).openR, 2)}R</div>
+                          )}
                         </td>
                         <td style={td}>
                           <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
-                            {t.status === "open" && <button style={btn1s} onClick={() => closeTrade(t.id)}>平仓</button>}
+                            {t.status === "planned" && <button style={btn1s} onClick={() => triggerPlan(t.id)}>触发开仓</button>}
+                            {t.status === "watch" && <button style={btn1s} onClick={() => startEdit(t)}>转为计划</button>}
+                            {(t.status === "watch" || t.status === "planned") && <button style={btn2s} onClick={() => cancelPlan(t.id)}>取消计划</button>}
+                            {(t.status === "cancelled" || t.status === "expired") && <button style={btn2s} onClick={() => recordShadow(t.id)}>假设结果</button>}
+                            {t.status === "open" && L.openQty > 0 && <button style={btn1s} onClick={() => closeTrade(t.id)}>平仓</button>}
+                            {t.status === "open" && L.openQty > 0 && (
+                              <button style={btn2s} onClick={() => toggleStop(t.id)}>{stopFor === t.id ? "收起" : "止损"}</button>
+                            )}
+                            <button style={btn2s} onClick={() => toggleFills(t.id)}>{fillFor === t.id ? "收起" : "成交"}</button>
+                            <button style={t.status === "closed" && !t.review ? btn1s : btn2s} onClick={() => toggleReview(t)}>
+                              {reviewFor === t.id ? "收起" : t.status === "closed" ? (t.review ? "复盘" : "待复盘") : "日志"}
+                            </button>
+                            {t.status === "closed" && <button style={btn2s} onClick={() => reopenTrade(t.id)}>重新打开</button>}
+                            <button style={btn2s} onClick={() => startEdit(t)}>编辑</button>
+                            <button style={btn2s} onClick={() => toggleHistory(t.id)}>{history?.id === t.id ? "收起" : "历史"}</button>
                             <button style={btn2s} onClick={() => delTrade(t.id)}>删除</button>
                           </div>
                         </td>
                       </tr>
-                    ))}
+                      {stopFor === t.id && (
+                        <tr>
+                          <td style={{ ...td, background: "#fafafa" }} colSpan={9}>
+                            <div style={{ fontWeight: 800 }}>止损调整</div>
+                            {(() => {
+                              const lr = calcLockedRisk(t);
+                              return (
+                                <div style={{ color: "#777", fontSize: 12, marginTop: 6 }}>
+                                  初始止损 {fmt(t.stop, 3)}（R 基准）· 当前止损 {fmt(lr.stop, 3)} ·{" "}
+                                  {lr.money > 0 ? `剩余风险 ${fmt(lr.money, 0)}（${fmt(lr.r, 2)}R）` : `已锁定利润 ${fmt(-lr.money, 0)}（${fmt(-lr.r, 2)}R）`}
+                                </div>
+                              );
+                            })()}
+                            <div style={{ color: "#777", fontSize: 12, marginTop: 6 }}>
+                              <div>{new Date(t.createdAt).toLocaleString()} · 初始 · {fmt(t.stop, 3)}</div>
+                              {(t.stopHistory || []).map((c, i) => (
+                                <div key={i}>
+                                  {new Date(c.ts).toLocaleString()} · {STOP_MODE_LABEL[c.mode]} · {fmt(c.from, 3)} → {fmt(c.price, 3)}{c.note ? `（${c.note}）` : ""}
+                                </div>
+                              ))}
+                            </div>
+                            <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr 1fr auto", gap: 8, marginTop: 8 }}>
+                              <select style={inp} value={stopDraft.mode} onChange={(e) => setStopDraft((d) => ({ ...d, mode: e.target.value as StopMode }))}>
+                                {(Object.keys(STOP_MODE_LABEL) as StopMode[]).map((m) => (
+                                  <option key={m} value={m}>{STOP_MODE_LABEL[m]}</option>
+                                ))}
+                              </select>
+                              {stopDraft.mode === "manual" && (
+                                <input style={inp} type="number" placeholder="新止损价" value={stopDraft.price || ""} onChange={(e) => setStopDraft((d) => ({ ...d, price: Number(e.target.value) }))} />
+                              )}
+                              {(stopDraft.mode === "trail_pct" || stopDraft.mode === "trail_atr") && (
+                                <input style={inp} type="number" placeholder="参考价（最高/最低点或现价）" value={stopDraft.ref || ""} onChange={(e) => setStopDraft((d) => ({ ...d, ref: Number(e.target.value) }))} />
+                              )}
+                              {stopDraft.mode === "trail_pct" && (
+                                <input style={inp} type="number" placeholder="回撤%" value={stopDraft.pct} onChange={(e) => setStopDraft((d) => ({ ...d, pct: Number(e.target.value) }))} />
+                              )}
+                              {stopDraft.mode === "trail_atr" && (
+                                <>
+                                  <input style={inp} type="number" placeholder="ATR 周期" value={stopDraft.atrN} onChange={(e) => setStopDraft((d) => ({ ...d, atrN: Number(e.target.value) }))} />
+                                  <input style={inp} type="number" placeholder="ATR 倍数" value={stopDraft.atrK} onChange={(e) => setStopDraft((d) => ({ ...d, atrK: Number(e.target.value) }))} />
+                                </>
+                              )}
+                              {stopDraft.mode === "breakeven" && <div style={{ gridColumn: "span 3", color: "#777", fontSize: 12, alignSelf: "center" }}>移到含费用的保本价。</div>}
+                              {stopDraft.mode === "manual" && <div style={{ gridColumn: "span 2" }} />}
+                              {stopDraft.mode === "trail_pct" && <div />}
+                              <button style={btn1s} onClick={() => moveStop(t.id)}>更新止损</button>
+                            </div>
+                            {stopDraft.mode === "trail_atr" && (
+                              <textarea
+                                style={{ ...inp, height: 90, marginTop: 8 }}
+                                placeholder={"最近K线价格，每行一根：最高,最低,收盘（或只填收盘价）"}
+                                value={stopDraft.atrText}
+                                onChange={(e) => setStopDraft((d) => ({ ...d, atrText: e.target.value }))}
+                              />
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                      {reviewFor === t.id && (
+                        <tr>
+                          <td style={{ ...td, background: "#fafafa" }} colSpan={9}>
+                            {t.status === "closed" && (
+                              <>
+                                <div style={{ fontWeight: 800 }}>平仓复盘{t.review ? `（${new Date(t.review.ts).toLocaleString()}）` : ""}</div>
+                                <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: 8, marginTop: 8 }}>
+                                  <select style={inp} title="是否按计划执行" value={reviewDraft.followedPlan ? "y" : "n"} onChange={(e) => setReviewDraft((d) => ({ ...d, followedPlan: e.target.value === "y" }))}>
+                                    <option value="y">按计划执行</option>
+                                    <option value="n">未按计划执行</option>
+                                  </select>
+                                  <select style={inp} title="离场原因" value={reviewDraft.exitReason} onChange={(e) => setReviewDraft((d) => ({ ...d, exitReason: e.target.value as ExitReason }))}>
+                                    {(Object.keys(EXIT_REASON_LABEL) as ExitReason[]).map((k) => (
+                                      <option key={k} value={k}>离场：{EXIT_REASON_LABEL[k]}</option>
+                                    ))}
+                                  </select>
+                                  <select style={inp} title="情绪评分" value={reviewDraft.emotion} onChange={(e) => setReviewDraft((d) => ({ ...d, emotion: Number(e.target.value) }))}>
+                                    {[1, 2, 3, 4, 5].map((e) => (
+                                      <option key={e} value={e}>情绪 {e} · {EMOTION_LABEL[e]}</option>
+                                    ))}
+                                  </select>
+                                </div>
+                                <div style={{ display: "flex", gap: 12, flexWrap: "wrap", marginTop: 8, fontSize: 13 }}>
+                                  {(settings.mistakes || []).map((m) => (
+                                    <label key={m.id} style={{ display: "flex", gap: 4, alignItems: "center" }}>
+                                      <input
+                                        type="checkbox"
+                                        checked={reviewDraft.mistakes.includes(m.id)}
+                                        onChange={() =>
+                                          setReviewDraft((d) => ({
+                                            ...d,
+                                            mistakes: d.mistakes.includes(m.id) ? d.mistakes.filter((x) => x !== m.id) : [...d.mistakes, m.id],
+                                          }))
+                                        }
+                                      />
+                                      {m.label}
+                                    </label>
+                                  ))}
+                                </div>
+                                <textarea
+                                  style={{ ...inp, width: "100%", minHeight: 60, marginTop: 8 }}
+                                  placeholder="这笔交易学到了什么（可选）"
+                                  value={reviewDraft.lesson}
+                                  onChange={(e) => setReviewDraft((d) => ({ ...d, lesson: e.target.value }))}
+                                />
+                                <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+                                  <button style={btn1s} onClick={() => saveReview(t.id)}>保存复盘</button>
+                                  <button style={btn2s} onClick={() => setReviewFor(null)}>稍后再填</button>
+                                </div>
+                              </>
+                            )}
+
+                            <div style={{ fontWeight: 800, marginTop: t.status === "closed" ? 12 : 0 }}>附件</div>
+                            {(t.attachments || []).length > 0 && (
+                              <Thumbs list={t.attachments!} urls={fileUrls} onOpen={setLightbox} onRemove={(id) => removeAttachment(t.id, id)} />
+                            )}
+                            <div style={{ marginTop: 6 }}>
+                              <AttachZone
+                                label={t.status === "closed" ? "拖入/粘贴平仓后的图表截图或 PDF（点击选择文件）" : "拖入/粘贴图表截图或研究 PDF（点击选择文件）"}
+                                onFiles={(files) => attachFiles(t.id, files, t.status === "closed" ? "close" : "plan")}
+                              />
+                            </div>
+
+                            <div style={{ fontWeight: 800, marginTop: 12 }}>交易日志</div>
+                            {(t.journal || []).length === 0 ? (
+                              <div style={{ color: "#666", fontSize: 12, marginTop: 6 }}>暂无日志。持仓期间的想法、盘中观察都可以随时记一笔。</div>
+                            ) : (
+                              <div style={{ fontSize: 13, marginTop: 6 }}>
+                                {t.journal!.map((j) => (
+                                  <div key={j.ts} style={{ display: "flex", gap: 8, alignItems: "start", borderTop: "1px solid #eee", padding: "4px 0" }}>
+                                    <div style={{ color: "#999", fontSize: 12, whiteSpace: "nowrap" }}>{new Date(j.ts).toLocaleString()}</div>
+                                    <div style={{ flex: 1, whiteSpace: "pre-wrap" }}>{j.text}</div>
+                                    <button style={btn2s} onClick={() => delJournal(t.id, j.ts)}>删除</button>
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                            <div style={{ display: "grid", gridTemplateColumns: "1fr auto", gap: 8, marginTop: 8 }}>
+                              <input style={inp} placeholder="记一笔…" value={journalText} onChange={(e) => setJournalText(e.target.value)} onKeyDown={(e) => e.key === "Enter" && addJournal(t.id)} />
+                              <button style={btn1s} onClick={() => addJournal(t.id)}>添加</button>
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                      {fillFor === t.id && (
+                        <tr>
+                          <td style={{ ...td, background: "#fafafa" }} colSpan={9}>
+                            <div style={{ fontWeight: 800 }}>成交明细</div>
+                            {t.fills.length === 0 ? (
+                              <div style={{ color: "#666", marginTop: 6 }}>暂无成交。</div>
+                            ) : (
+                              <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 12, marginTop: 6 }}>
+                                <thead>
+                                  <tr style={{ textAlign: "left", color: "#666" }}>
+                                    <th style={th}>时间</th>
+                                    <th style={th}>类型</th>
+                                    <th style={th}>价格</th>
+                                    <th style={th}>数量</th>
+                                    <th style={th}>费用</th>
+                                    <th style={th}></th>
+                                  </tr>
+                                </thead>
+                                <tbody>
+                                  {[...t.fills].sort((a, b) => a.ts - b.ts).map((f) => (
+                                    <tr key={f.id} style={{ borderTop: "1px solid #eee" }}>
+                                      <td style={td}>{new Date(f.ts).toLocaleString()}</td>
+                                      <td style={td}>{f.kind === "entry" ? "开/加仓" : "减/平仓"}</td>
+                                      <td style={td}>
+                                        {fmt(f.price, 2)}
+                                        {f.planned && <span style={{ color: "#b45309" }}>（计划价）</span>}
+                                      </td>
+                                      <td style={td}>{fmt(f.qty, 0)}</td>
+                                      <td style={td}>{fmt(f.fee, 2)}</td>
+                                      <td style={td}>
+                                        <div style={{ display: "flex", gap: 6 }}>
+                                          {f.planned && <button style={btn2s} onClick={() => confirmFill(t.id, f.id)}>核对成交价</button>}
+                                          <button style={btn2s} onClick={() => delFill(t.id, f.id)}>删除</button>
+                                        </div>
+                                      </td>
+                                    </tr>
+                                  ))}
+                                </tbody>
+                              </table>
+                            )}
+                            <div style={{ color: "#777", fontSize: 12, marginTop: 6 }}>
+                              已实现 {fmt(L.realized, 0)} · 持仓 {fmt(L.openQty, 0)} @ {fmt(L.avgOpen, 2)} · 费用合计 {fmt(L.fees, 2)}
+                            </div>
+                            {(() => {
+                              const x = calcExecution(t);
+                              if (!(x.entryQty + x.stopQty + x.targetQty)) {
+                                return <div style={{ color: "#777", fontSize: 12, marginTop: 6 }}>执行质量：暂无已核对的成交（计划价成交请先核对实际成交价）。</div>;
+                              }
+                              return (
+                                <div style={{ color: "#777", fontSize: 12, marginTop: 6 }}>
+                                  执行质量（不利为正）：
+                                  {x.entryQty > 0 && `入场 计划 ${fmt(t.entry, 2)} · 滑点 ${fmt(x.entrySlip / x.entryQty, 3)}/单位`}
+                                  {x.stopQty > 0 && ` · 止损出场滑点 ${fmt(x.stopSlip / x.stopQty, 3)}/单位`}
+                                  {x.targetQty > 0 && ` · 目标出场滑点 ${fmt(x.targetSlip / x.targetQty, 3)}/单位`}
+                                  {` · 设定滑点 ${fmt(t.slippage, 3)}/单位 · 执行损失 ${fmt(x.slipMoney, 2)}（${fmt(x.rLost, 2)}R）`}
+                                </div>
+                              );
+                            })()}
+                            {(() => {
+                              const x = calcReplay(t, bars[normSymbol(t.symbol)], replayCfg);
+                              if (!x) return null;
+                              const alt = (label: string, e?: { r: number; reason: ReplayExit["reason"]; ts: number }) =>
+                                e ? ` · ${label} ${fmt(e.r, 2)}R（${REPLAY_REASON_LABEL[e.reason]} ${dateInput(e.ts)}）` : "";
+                              return (
+                                <div style={{ color: "#777", fontSize: 12, marginTop: 6 }}>
+                                  日线回放：MAE {fmt(-x.mae, 2)}R · MFE {fmt(x.mfe, 2)}R · 实际 {fmt(x.actual, 2)}R（毛）
+                                  {alt("持有到目标", x.target)}
+                                  {alt(`跟踪 ${replayCfg.trailR}R`, x.trail)}
+                                  {alt(`${replayCfg.timeDays} 根时间止损`, x.time)}
+                                </div>
+                              );
+                            })()}
+                            {alerts.some((a) => a.tradeId === t.id) && (
+                              <div style={{ color: "#777", fontSize: 12, marginTop: 6 }}>
+                                {alerts.filter((a) => a.tradeId === t.id).map((a) => {
+                                  const ms = reactionMs(t, a);
+                                  return (
+                                    <div key={a.id}>
+                                      🔔 {new Date(a.ts).toLocaleString()} {ALERT_LABEL[a.kind]}（{fmt(a.price, 2)}）
+                                      {ms !== undefined ? ` · ${fmtDuration(ms)}后减仓` : ""}
+                                    </div>
+                                  );
+                                })}
+                              </div>
+                            )}
+                            <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr 1fr auto", gap: 8, marginTop: 8 }}>
+                              <select style={inp} value={fillDraft.kind} onChange={(e) => setFillDraft((d) => ({ ...d, kind: e.target.value as FillKind }))}>
+                                <option value="entry">开/加仓</option>
+                                <option value="exit">减/平仓</option>
+                              </select>
+                              <input style={inp} type="number" placeholder="成交价" value={fillDraft.price || ""} onChange={(e) => setFillDraft((d) => ({ ...d, price: Number(e.target.value) }))} />
+                              <input style={inp} type="number" placeholder="数量" value={fillDraft.qty || ""} onChange={(e) => setFillDraft((d) => ({ ...d, qty: Number(e.target.value) }))} />
+                              <input style={inp} type="number" placeholder="费用（留空按费率估算）" value={fillDraft.fee} onChange={(e) => setFillDraft((d) => ({ ...d, fee: e.target.value }))} />
+                              <button style={btn1s} onClick={() => addFill(t.id)}>记录成交</button>
+                            </div>
+                          </td>
+                        </tr>
+                      )}
+                      {history?.id === t.id && (
+                        <tr>
+                          <td style={{ ...td, background: "#fafafa" }} colSpan={9}>
+                            <div style={{ fontWeight: 800 }}>变更历史</div>
+                            {(t.edits || []).length > 0 && (
+                              <div style={{ color: "#777", fontSize: 12, marginTop: 6 }}>
+                                {[...t.edits!].reverse().map((e, i) => (
+                                  <div key={i}>
+                                    {new Date(e.ts).toLocaleString()} · 编辑 ·{" "}
+                                    {e.changes.map((c) => `${EDIT_FIELDS[c.field] || c.field}：${fmtEditValue(c.from)} → ${fmtEditValue(c.to)}`).join("；")}
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                            {history.list.length === 0 ? (
+                              <div style={{ color: "#777", fontSize: 12, marginTop: 6 }}>暂无变更日志（迁移前或 localStorage 模式下的改动不在日志中）。</div>
+                            ) : (
+                              <div style={{ color: "#777", fontSize: 12, marginTop: 6 }}>
+                                {history.list.map((c) => (
+                                  <div key={c.seq}>
+                                    {new Date(c.ts).toLocaleString()} · {CHANGE_LABEL[c.op]}
+                                    {c.source !== "edit" ? `（${c.source === "undo" ? "撤销" : "重做"}）` : ""}
+                                    {c.op === "update" || c.op === "close" || c.op === "reopen" ? ` · ${changedFields(c.before, c.after).join("、") || "-"}` : ""}
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </td>
+                        </tr>
+                      )}
+                      </React.Fragment>
+                      );
+                    })}
                   </tbody>
                 </table>
+                <div style={{ display: "flex", gap: 8, alignItems: "center", justifyContent: "flex-end", marginTop: 8, fontSize: 13, color: "#666" }}>
+                  <span>共 {sorted.length} 笔</span>
+                  <button style={btn2s} disabled={page <= 0} onClick={() => setPage((p) => Math.max(0, Math.min(p, pageCount - 1) - 1))}>上一页</button>
+                  <span>{Math.min(page, pageCount - 1) + 1} / {pageCount}</span>
+                  <button style={btn2s} disabled={page >= pageCount - 1} onClick={() => setPage((p) => Math.min(pageCount - 1, p + 1))}>下一页</button>
+                </div>
               </div>
             )}
           </Panel>
+
+          {trash.length > 0 && (
+            <div style={{ marginTop: 12 }}>
+            <Panel>
+              <h3 style={{ margin: 0 }}>回收站</h3>
+              <div style={{ color: "#666", fontSize: 13, marginTop: 6 }}>删除的交易保留 {TRASH_DAYS} 天，过期自动清除。</div>
+              <div style={{ display: "grid", gap: 6, marginTop: 10 }}>
+                {trash.map((x) => (
+                  <div key={x.id} style={{ display: "flex", gap: 8, alignItems: "center", fontSize: 13 }}>
+                    <div style={{ flex: 1 }}>
+                      <b>{x.trade.symbol}</b>{x.trade.name ? ` · ${x.trade.name}` : ""} · {STATUS_LABEL[x.trade.status]}
+                      <span style={{ color: "#999" }}> · 删除于 {new Date(x.deletedAt).toLocaleString()} · 剩 {Math.max(0, Math.ceil(TRASH_DAYS - (Date.now() - x.deletedAt) / 86400000))} 天</span>
+                    </div>
+                    <button style={btn1s} onClick={() => restoreTrash(x.id)}>恢复</button>
+                    <button style={btn2s} onClick={() => purgeTrash(x.id)}>彻底删除</button>
+                  </div>
+                ))}
+              </div>
+            </Panel>
+            </div>
+          )}
+        </div>
+      )}
+
+      {tab === "review" && (
+        <div style={{ marginTop: 14 }}>
+          <Panel>
+            <h3 style={{ margin: 0 }}>报表</h3>
+            <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap", marginTop: 10 }}>
+              <button style={btn2s} onClick={exportSummaryCSV}>导出统计汇总 CSV</button>
+              <span style={{ color: "#ddd" }}>|</span>
+              <select style={{ ...inp, width: "auto", padding: 8 }} value={reportKind} onChange={(e) => setReportKind(e.target.value as any)}>
+                <option value="month">月度</option>
+                <option value="quarter">季度</option>
+              </select>
+              <select style={{ ...inp, width: "auto", padding: 8 }} value="" onChange={(e) => e.target.value && setReport(e.target.value)}>
+                <option value="">{periods[reportKind].length ? "选择周期，打开复盘报告…" : "暂无已平仓交易"}</option>
+                {periods[reportKind].map((k) => (
+                  <option key={k} value={k}>{periodRange(k).label}</option>
+                ))}
+              </select>
+            </div>
+            <div style={{ color: "#888", fontSize: 12, marginTop: 8 }}>
+              CSV 为 UTF-8（带 BOM），可直接用 Excel 打开。复盘报告打开后点「打印 / 存为 PDF」，在打印对话框里选择“另存为 PDF”。统计口径与日志筛选一致。
+            </div>
+          </Panel>
+
+          <div style={{ marginTop: 12 }}>
+            <Panel>
+              <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+                <h3 style={{ margin: 0 }}>期望值 / R 分布（已平仓）</h3>
+                <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+                  {GROUP_DIMS.map((g) => (
+                    <TabButton key={g.k} onClick={() => setGroupDim(g.k)} active={groupDim === g.k}>按{g.t}</TabButton>
+                  ))}
+                </div>
+              </div>
+              {groupStats.length === 0 ? (
+                <div style={{ color: "#666", marginTop: 10 }}>暂无已平仓交易。</div>
+              ) : (
+                <div style={{ overflowX: "auto", marginTop: 10 }}>
+                  <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+                    <thead>
+                      <tr style={{ textAlign: "left", color: "#666" }}>
+                        <th style={th}>{GROUP_DIMS.find((g) => g.k === groupDim)?.t}</th>
+                        <th style={th}>笔数</th>
+                        <th style={th}>胜率</th>
+                        <th style={th}>平均盈利R</th>
+                        <th style={th}>平均亏损R</th>
+                        <th style={th}>期望值R</th>
+                        <th style={th}>Profit Factor</th>
+                        <th style={th}>PnL</th>
+                        <th style={th}>R 分布</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {groupStats.map((g) => (
+                        <tr key={g.key} style={{ borderTop: "1px solid #eee" }}>
+                          <td style={{ ...td, fontWeight: 800 }}>{g.key}</td>
+                          <td style={td}>{g.count}</td>
+                          <td style={td}>{fmt(g.winRate * 100, 1)}%</td>
+                          <td style={td}>{fmt(g.avgWinR, 2)}</td>
+                          <td style={td}>{fmt(g.avgLossR, 2)}</td>
+                          <td style={td}>
+                            <span style={{ color: g.expectancy >= 0 ? "#047857" : "#b91c1c", fontWeight: 800 }}>{fmt(g.expectancy, 2)}</span>
+                          </td>
+                          <td style={td}>{g.profitFactor === Infinity ? "∞" : fmt(g.profitFactor, 2)}</td>
+                          <td style={td}>{fmt(g.pnl, 0)}</td>
+                          <td style={td}><RHist counts={g.hist} /></td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+              <div style={{ color: "#888", fontSize: 12, marginTop: 8 }}>
+                期望值 = 胜率 × 平均盈利R + (1 − 胜率) × 平均亏损R。按标签分组时一笔交易会计入它的每个标签。
+              </div>
+            </Panel>
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <Panel>
+              <h3 style={{ margin: 0 }}>错误代价（已复盘 {reviewStats.reviewed} / 已平仓 {reviewStats.closed}）</h3>
+              {reviewStats.reviewed === 0 ? (
+                <div style={{ color: "#666", marginTop: 10 }}>暂无复盘。平仓后在交易日志里点「待复盘」填写。</div>
+              ) : (
+                <>
+                  <div style={{ overflowX: "auto", marginTop: 10 }}>
+                    <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+                      <thead>
+                        <tr style={{ textAlign: "left", color: "#666" }}>
+                          <th style={th}>错误类型</th>
+                          <th style={th}>次数</th>
+                          <th style={th}>胜率</th>
+                          <th style={th}>平均R</th>
+                          <th style={th}>比无错误 每笔</th>
+                          <th style={th}>估计代价</th>
+                          <th style={th}>PnL</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        <tr style={{ borderTop: "1px solid #eee", color: "#666" }}>
+                          <td style={td}>{reviewStats.clean.key}</td>
+                          <td style={td}>{reviewStats.clean.count}</td>
+                          <td style={td}>{reviewStats.clean.count ? `${fmt(reviewStats.clean.winRate * 100, 1)}%` : "-"}</td>
+                          <td style={td}>{reviewStats.clean.count ? <RVal r={reviewStats.clean.expectancy} /> : "-"}</td>
+                          <td style={td}>-</td>
+                          <td style={td}>-</td>
+                          <td style={td}>{fmt(reviewStats.clean.pnl, 0)}</td>
+                        </tr>
+                        {reviewStats.rows.map((r) => (
+                          <tr key={r.id} style={{ borderTop: "1px solid #eee" }}>
+                            <td style={{ ...td, fontWeight: 800 }}>{r.key}</td>
+                            <td style={td}>{r.count}</td>
+                            <td style={td}>{fmt(r.winRate * 100, 1)}%</td>
+                            <td style={td}><RVal r={r.expectancy} /></td>
+                            <td style={td}><RVal r={r.delta} /></td>
+                            <td style={td}><RVal r={r.cost} /></td>
+                            <td style={td}>{fmt(r.pnl, 0)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+
+                  <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: 12, marginTop: 12 }}>
+                    {[
+                      { t: "是否按计划", rows: reviewStats.plan },
+                      { t: "离场原因", rows: reviewStats.exits },
+                      { t: "情绪", rows: reviewStats.emotions },
+                    ].map((g) => (
+                      <table key={g.t} style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+                        <thead>
+                          <tr style={{ textAlign: "left", color: "#666" }}>
+                            <th style={th}>{g.t}</th>
+                            <th style={th}>笔数</th>
+                            <th style={th}>平均R</th>
+                            <th style={th}>PnL</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {g.rows.map((r) => (
+                            <tr key={r.key} style={{ borderTop: "1px solid #eee" }}>
+                              <td style={td}>{r.key}</td>
+                              <td style={td}>{r.count}</td>
+                              <td style={td}>{r.count ? <RVal r={r.expectancy} /> : "-"}</td>
+                              <td style={td}>{r.count ? fmt(r.pnl, 0) : "-"}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    ))}
+                  </div>
+                  <div style={{ color: "#888", fontSize: 12, marginTop: 8 }}>
+                    估计代价 = (犯该错误交易的平均R − 无错误交易的平均R) × 次数，负数为损失。一笔交易可同时计入多个错误类型。
+                  </div>
+                </>
+              )}
+            </Panel>
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <Panel>
+              <h3 style={{ margin: 0 }}>放弃的计划（已取消 / 已过期 {skippedStats.skipped.length} 笔）</h3>
+              {skippedStats.skipped.length === 0 ? (
+                <div style={{ color: "#666", marginTop: 10 }}>暂无取消或过期的计划。</div>
+              ) : (
+                <>
+                  <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 10, marginTop: 10 }}>
+                    <Mini label="有假设结果" value={`${skippedStats.measured} / ${skippedStats.skipped.length}`} />
+                    <Mini label="假设胜率" value={skippedStats.measured ? `${fmt(skippedStats.winRate * 100, 1)}%` : "-"} />
+                    <Mini label="放弃计划 平均R" value={skippedStats.measured ? fmt(skippedStats.avgR, 2) : "-"} />
+                    <Mini label={`已执行 平均R（${skippedStats.taken} 笔）`} value={fmt(skippedStats.takenAvgR, 2)} />
+                  </div>
+                  <div style={{ overflowX: "auto", marginTop: 10, maxHeight: 320, overflowY: "auto" }}>
+                    <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+                      <thead>
+                        <tr style={{ textAlign: "left", color: "#666" }}>
+                          <th style={th}>标的</th>
+                          <th style={th}>状态</th>
+                          <th style={th}>计划 入场 / 止损 / 目标</th>
+                          <th style={th}>得分</th>
+                          <th style={th}>理由</th>
+                          <th style={th}>假设R</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {skippedStats.skipped.map((t) => (
+                          <tr key={t.id} style={{ borderTop: "1px solid #eee" }}>
+                            <td style={{ ...td, fontWeight: 800 }}>{t.symbol}{t.name ? ` · ${t.name}` : ""}</td>
+                            <td style={td}>{STATUS_LABEL[t.status]}</td>
+                            <td style={td}>{fmt(t.entry, 2)} / {fmt(t.stop, 2)} / {t.target ? fmt(t.target, 2) : "-"}</td>
+                            <td style={td}>{t.score}</td>
+                            <td style={td}>{t.cancelReason || "-"}</td>
+                            <td style={td}>{typeof shadowR(t) === "number" ? <RVal r={shadowR(t)!} /> : "-"}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                  <div style={{ color: "#888", fontSize: 12, marginTop: 8 }}>
+                    假设按计划入场价成交：取消/过期后行情到达触发价才开始计算，之后先触及止损记 −1R 左右，先触及目标记目标R（含成本）；也可在交易日志里手动填写假设出场价。
+                  </div>
+                </>
+              )}
+            </Panel>
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <Panel>
+              <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+                <h3 style={{ margin: 0 }}>MAE / MFE 与替代离场（有日线 {replayStats.covered} / 已平仓 {replayStats.closed}）</h3>
+                <div style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 13 }}>
+                  <span>跟踪止损回撤</span>
+                  <input style={{ ...inp, width: 70, padding: 6 }} type="number" step="0.5" min="0.5" value={replayCfg.trailR}
+                    onChange={(e) => Number(e.target.value) > 0 && patchReplay({ trailR: Number(e.target.value) })} />
+                  <span>R · 时间止损</span>
+                  <input style={{ ...inp, width: 70, padding: 6 }} type="number" step="1" min="1" value={replayCfg.timeDays}
+                    onChange={(e) => Number(e.target.value) >= 1 && patchReplay({ timeDays: Math.floor(Number(e.target.value)) })} />
+                  <span>根</span>
+                </div>
+              </div>
+              {replayStats.covered === 0 ? (
+                <div style={{ color: "#666", marginTop: 10 }}>暂无可回放的交易。在「导入成交」里导入相关代码的日线（需覆盖入场到平仓），且交易需设有止损。</div>
+              ) : (
+                <>
+                  <div style={{ overflowX: "auto", marginTop: 10 }}>
+                    <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+                      <thead>
+                        <tr style={{ textAlign: "left", color: "#666" }}>
+                          <th style={th}>模型</th>
+                          <th style={th}>样本</th>
+                          <th style={th}>平均MAE</th>
+                          <th style={th}>平均MFE</th>
+                          <th style={th}>捕获率</th>
+                          <th style={th}>实际</th>
+                          <th style={th}>持有到目标</th>
+                          <th style={th}>跟踪止损 {replayCfg.trailR}R</th>
+                          <th style={th}>时间止损 {replayCfg.timeDays} 根</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {[...replayStats.rows, ...(replayStats.rows.length > 1 ? [replayStats.total] : [])].map((g) => {
+                          const best = Math.max(...[g.actual, g.target, g.trail, g.time].filter((x): x is number => typeof x === "number"));
+                          const cell = (v?: number) => (
+                            <td style={{ ...td, background: v === best ? "#ecfdf5" : undefined }}>{typeof v === "number" ? <RVal r={v} /> : "-"}</td>
+                          );
+                          return (
+                            <tr key={g.key} style={{ borderTop: "1px solid #eee", fontWeight: g === replayStats.total ? 800 : undefined }}>
+                              <td style={{ ...td, fontWeight: 800 }}>{g.key}</td>
+                              <td style={td}>{g.n}{g.unfinished ? <span style={{ color: "#b45309" }} title="有回放在数据截止时仍未离场，按最后收盘价计"> *</span> : ""}</td>
+                              <td style={td}>{fmt(-(g.mae || 0), 2)}</td>
+                              <td style={td}>{fmt(g.mfe, 2)}</td>
+                              <td style={td}>{typeof g.capture === "number" ? `${fmt(g.capture * 100, 0)}%` : "-"}</td>
+                              {cell(g.actual)}
+                              {g.targetN ? cell(g.target) : <td style={td}>-</td>}
+                              {cell(g.trail)}
+                              {cell(g.time)}
+                            </tr>
+                          );
+                        })}
+                      </tbody>
+                    </table>
+                  </div>
+                  <div style={{ color: "#888", fontSize: 12, marginTop: 8 }}>
+                    均为每笔平均毛R（不含费用），按实际平均入场价与初始止损计算；绿色为该模型表现最好的离场方式。捕获率 = 实际R 合计 / MFE 合计。
+                    日线看不到日内顺序：替代离场从入场次日开始模拟，同一根 K 线同时触及止损与目标按先止损计，跳空按开盘价成交；* 表示有回放在数据截止时仍未离场。
+                  </div>
+                </>
+              )}
+            </Panel>
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <Panel>
+              <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+                <h3 style={{ margin: 0 }}>清单得分校准（{calib.count} 笔）</h3>
+                <div style={{ display: "flex", gap: 6 }}>
+                  {settings.models.map((m) => (
+                    <TabButton key={m.id} onClick={() => setCalibModel(m.id)} active={findModel(settings.models, calibModel).id === m.id}>{m.name}</TabButton>
+                  ))}
+                </div>
+              </div>
+
+              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12, marginTop: 10 }}>
+                <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+                  <thead>
+                    <tr style={{ textAlign: "left", color: "#666" }}>
+                      <th style={th}>得分段</th>
+                      <th style={th}>笔数</th>
+                      <th style={th}>胜率</th>
+                      <th style={th}>期望值R</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {calib.bands.map((b) => (
+                      <tr key={b.t} style={{ borderTop: "1px solid #eee" }}>
+                        <td style={td}>{b.t}</td>
+                        <td style={td}>{b.count}</td>
+                        <td style={td}>{b.count ? `${fmt(b.winRate * 100, 1)}%` : "-"}</td>
+                        <td style={td}>{b.count ? <RVal r={b.expectancy} /> : "-"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+
+                <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+                  <thead>
+                    <tr style={{ textAlign: "left", color: "#666" }}>
+                      <th style={th}>结论</th>
+                      <th style={th}>笔数</th>
+                      <th style={th}>胜率</th>
+                      <th style={th}>期望值R</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {calib.verdicts.map((v) => (
+                      <tr key={v.t} style={{ borderTop: "1px solid #eee" }}>
+                        <td style={td}>{v.t}</td>
+                        <td style={td}>{v.count}</td>
+                        <td style={td}>{fmt(v.winRate * 100, 1)}%</td>
+                        <td style={td}><RVal r={v.expectancy} /></td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div style={{ overflowX: "auto", marginTop: 12 }}>
+                <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+                  <thead>
+                    <tr style={{ textAlign: "left", color: "#666" }}>
+                      <th style={th}>清单项</th>
+                      <th style={th}>勾选（笔数 / 期望R）</th>
+                      <th style={th}>未勾选（笔数 / 期望R）</th>
+                      <th style={th}>差值R</th>
+                      <th style={th}>当前权重</th>
+                      <th style={th}>建议权重</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {calib.items.map((it) => (
+                      <tr key={it.k} style={{ borderTop: "1px solid #eee" }}>
+                        <td style={{ ...td, fontWeight: 700 }}>{it.t}</td>
+                        <td style={td}>{it.on.count} / {it.on.count ? <RVal r={it.on.expectancy} /> : "-"}</td>
+                        <td style={td}>{it.off.count} / {it.off.count ? <RVal r={it.off.expectancy} /> : "-"}</td>
+                        <td style={td}>{it.hasData ? <RVal r={it.lift} /> : "样本不足"}</td>
+                        <td style={td}>{it.w}</td>
+                        <td style={{ ...td, fontWeight: 800 }}>{it.suggested}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div style={{ display: "flex", gap: 8, marginTop: 10 }}>
+                <button style={btn1} onClick={applyWeights} disabled={!calib.count}>应用建议权重（保存为新版本）</button>
+              </div>
+              <div style={{ color: "#888", fontSize: 12, marginTop: 8 }}>
+                建议权重 = 当前权重 × e^(差值R × n/(n+5))，n 为勾选/未勾选中较少一侧的笔数，再按原总权重归一。样本越少越接近原权重。
+              </div>
+            </Panel>
+          </div>
+        </div>
+      )}
+
+      {tab === "backtest" && (
+        <div style={{ marginTop: 14 }}>
+          <Panel>
+            <h3 style={{ margin: 0 }}>规则回测（日线）</h3>
+            <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr 1fr", gap: 10, marginTop: 10 }}>
+              <select style={inp} value={btModel.id} onChange={(e) => patchBt({ model: e.target.value, threshold: 0 })} title="评分模型">
+                {settings.models.map((m) => (
+                  <option key={m.id} value={m.id}>{m.name}</option>
+                ))}
+              </select>
+              <select style={inp} value={btThreshold} onChange={(e) => patchBt({ threshold: Number(e.target.value) })} title="入场阈值">
+                {[...btModel.verdicts].sort((a, b) => b.min - a.min).map((v) => (
+                  <option key={v.min} value={v.min}>得分上穿 {v.min}（{v.label}）</option>
+                ))}
+              </select>
+              <select style={inp} value={btCfg.unknown} onChange={(e) => patchBt({ unknown: e.target.value as any })} title="无法计算的条目">
+                <option value="scale">只按可计算条目折算得分</option>
+                <option value="fail">无法计算的条目视为未满足</option>
+              </select>
+              <select style={inp} value={findAccount(settings.accounts, btCfg.account).id} onChange={(e) => patchBt({ account: e.target.value })} title="仓位与成本按该账户">
+                {settings.accounts.map((a) => (
+                  <option key={a.id} value={a.id}>{a.name}（{a.currency}）</option>
+                ))}
+              </select>
+            </div>
+            <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr 2fr auto", gap: 10, marginTop: 10 }}>
+              <input style={inp} type="number" step="0.5" min="0.5" title="止损 = 入场价 − ATR(14) × 倍数" placeholder="止损 ATR 倍数" value={btCfg.atrK}
+                onChange={(e) => patchBt({ atrK: Number(e.target.value) || 2 })} />
+              <select style={inp} value={btCfg.exit} title="离场规则" onChange={(e) => patchBt({ exit: e.target.value as any })}>
+                <option value="target">持有到目标（R）</option>
+                <option value="trail">跟踪止损（回撤 R）</option>
+                <option value="time">时间止损（K 线根数）</option>
+              </select>
+              {btCfg.exit === "time" ? (
+                <input style={inp} type="number" step="1" min="1" title="持有 K 线根数" value={btCfg.exitDays}
+                  onChange={(e) => patchBt({ exitDays: Math.max(1, Math.floor(Number(e.target.value) || 1)) })} />
+              ) : (
+                <input style={inp} type="number" step="0.5" min="0.5" title={btCfg.exit === "target" ? "目标 = 入场 + R × 风险" : "从最高价回撤 R × 风险时离场"} value={btCfg.exitR}
+                  onChange={(e) => patchBt({ exitR: Number(e.target.value) || 2 })} />
+              )}
+              <input style={inp} placeholder="代码（空格分隔，留空 = 全部已导入日线）" value={btCfg.symbols} onChange={(e) => patchBt({ symbols: e.target.value })} />
+              <button style={btn1} onClick={runBT}>运行回测</button>
+            </div>
+            <div style={{ color: "#888", fontSize: 12, marginTop: 6 }}>
+              止损 = 入场价 − ATR(14) × {btCfg.atrK}；{btCfg.exit === "time" ? `入场后第 ${btCfg.exitDays} 根 K 线收盘离场` : btCfg.exit === "target" ? `目标 = 入场价 + ${btCfg.exitR}R` : `从持仓最高价回撤 ${btCfg.exitR}R 离场`}，初始止损始终有效。
+            </div>
+            <div style={{ display: "flex", gap: 6, flexWrap: "wrap", marginTop: 10, fontSize: 12 }}>
+              {btModel.items.map((it) => (
+                <span key={it.k} title={autoItem(it.k, btVolume)?.t || (AUTO_ITEMS[it.k] ? "日线没有成交量，回测无法计算" : "需要人工判断，回测无法计算")}
+                  style={{ padding: "4px 8px", borderRadius: 999, border: "1px solid #eee", background: autoItem(it.k, btVolume) ? "#ecfdf5" : "#f5f5f5", color: autoItem(it.k, btVolume) ? "#047857" : "#999" }}>
+                  {autoItem(it.k, btVolume) ? "✓" : "✗"} {it.t}（{it.w}）
+                </span>
+              ))}
+            </div>
+            <div style={{ color: "#888", fontSize: 12, marginTop: 8 }}>
+              得分在收盘后计算，上穿阈值时次日开盘买入（只做多），每个代码同时只持有一笔。仓位按所选账户的单笔风险 {fmt(settings.maxRiskPct, 2)}%、手数与费用方案计算，
+              不检查资金占用；同一根 K 线同时触及止损与目标按先止损计。
+            </div>
+          </Panel>
+
+          {btResult && btCompare && (
+            <div style={{ marginTop: 12 }}>
+              <Panel>
+                <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+                  <h3 style={{ margin: 0 }}>
+                    回测结果 · {findModel(settings.models, btResult.modelId).name} · 阈值 {btResult.threshold} · {btResult.symbols.length} 个代码
+                  </h3>
+                  <div style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 12, color: "#999" }}>
+                    运行于 {new Date(btResult.ranAt).toLocaleString()}
+                    <button style={btn2s} disabled={!btResult.trades.length} onClick={exportBtCSV}>导出 CSV</button>
+                  </div>
+                </div>
+                {btResult.trades.length === 0 ? (
+                  <div style={{ color: "#666", marginTop: 10 }}>没有产生信号。可降低阈值、改为“只按可计算条目折算得分”，或导入更长的日线。</div>
+                ) : (
+                  <>
+                    <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 10, marginTop: 10 }}>
+                      <Mini label="期初 → 期末权益" value={`${fmt(btResult.account.equity, 0)} → ${fmt(btResult.endEquity, 0)} ${btResult.account.currency}`} />
+                      <Mini label="收益率" value={`${fmt(btResult.account.equity > 0 ? (btResult.endEquity / btResult.account.equity - 1) * 100 : 0, 1)}%`} />
+                      <Mini label="最大回撤" value={`${fmt(btResult.maxDD, 0)}（${fmt(btResult.maxDDPct * 100, 1)}%）`} />
+                      <Mini label="平均持有" value={`${fmt(btResult.trades.reduce((s, t) => s + (t.exitTs - t.entryTs), 0) / btResult.trades.length / 86400000, 1)} 天`} />
+                    </div>
+                    <EquityChart base={btResult.account.equity} points={btResult.points} />
+
+                    <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13, marginTop: 10 }}>
+                      <thead>
+                        <tr style={{ textAlign: "left", color: "#666" }}>
+                          <th style={th}></th>
+                          <th style={th}>笔数</th>
+                          <th style={th}>胜率</th>
+                          <th style={th}>平均盈利R</th>
+                          <th style={th}>平均亏损R</th>
+                          <th style={th}>期望值R</th>
+                          <th style={th}>Profit Factor（R）</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {[
+                          { k: "规则回测", x: btCompare.backtest },
+                          { k: "实际交易（同模型）", x: btCompare.actual },
+                        ].map(({ k, x }) => (
+                          <tr key={k} style={{ borderTop: "1px solid #eee" }}>
+                            <td style={{ ...td, fontWeight: 800 }}>{k}</td>
+                            <td style={td}>{x.count}</td>
+                            <td style={td}>{x.count ? `${fmt(x.winRate * 100, 1)}%` : "-"}</td>
+                            <td style={td}>{x.count ? fmt(x.avgWinR, 2) : "-"}</td>
+                            <td style={td}>{x.count ? fmt(x.avgLossR, 2) : "-"}</td>
+                            <td style={td}>{x.count ? <RVal r={x.avgR} /> : "-"}</td>
+                            <td style={td}>{!x.count ? "-" : x.profitFactor === Infinity ? "∞" : fmt(x.profitFactor, 2)}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                    <div style={{ color: "#888", fontSize: 12, marginTop: 8 }}>
+                      R 均为扣除成本后的净R；实际交易包含全部账户、全部时间，回测区间取决于导入的日线。
+                    </div>
+
+                    <div style={{ overflowX: "auto", marginTop: 10, maxHeight: 360, overflowY: "auto" }}>
+                      <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+                        <thead>
+                          <tr style={{ textAlign: "left", color: "#666" }}>
+                            <th style={th}>代码</th>
+                            <th style={th}>得分</th>
+                            <th style={th}>入场</th>
+                            <th style={th}>止损</th>
+                            <th style={th}>离场</th>
+                            <th style={th}>数量</th>
+                            <th style={th}>PnL</th>
+                            <th style={th}>R</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {btResult.trades.map((t, i) => (
+                            <tr key={i} style={{ borderTop: "1px solid #eee" }}>
+                              <td style={{ ...td, fontWeight: 800 }}>{t.symbol}</td>
+                              <td style={td}>{t.score}</td>
+                              <td style={td}>{dateInput(t.entryTs)} @ {fmt(t.entry, 2)}</td>
+                              <td style={td}>{fmt(t.stop, 2)}</td>
+                              <td style={td}>{dateInput(t.exitTs)} @ {fmt(t.exit, 2)} · {REPLAY_REASON_LABEL[t.reason]}</td>
+                              <td style={td}>{t.size}</td>
+                              <td style={td}>{fmt(t.pnl, 0)}</td>
+                              <td style={td}><RVal r={t.r} /></td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    </div>
+                  </>
+                )}
+              </Panel>
+            </div>
+          )}
+        </div>
+      )}
+
+      {tab === "import" && (
+        <div style={{ marginTop: 14 }}>
+          <Panel>
+            <h3 style={{ margin: 0 }}>导入券商成交单（CSV）</h3>
+            <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr 2fr", gap: 10, marginTop: 10 }}>
+              <select style={inp} value={findAccount(settings.accounts, csvAccount).id} onChange={(e) => setCsvAccount(e.target.value)} title="导入到账户">
+                {settings.accounts.map((a) => (
+                  <option key={a.id} value={a.id}>{a.name}（{a.currency}）</option>
+                ))}
+              </select>
+              <select style={inp} value={csvEncoding} onChange={(e) => setCsvEncoding(e.target.value)}>
+                <option value="utf-8">UTF-8</option>
+                <option value="gb18030">GBK / GB18030</option>
+              </select>
+              <button style={btn2} onClick={() => csvRef.current?.click()}>选择 CSV 文件</button>
+              <div style={{ ...miniBox, fontSize: 13 }}>{csv ? `${csv.name} · ${csv.rows.length - 1} 行` : "未选择文件"}</div>
+              <input ref={csvRef} type="file" accept=".csv,.txt,text/csv" style={{ display: "none" }}
+                onChange={(e) => { const f = e.target.files?.[0]; if (f) loadCSV(f); e.currentTarget.value = ""; }} />
+            </div>
+            <div style={{ color: "#888", fontSize: 12, marginTop: 8 }}>
+              券商导出的交割单多为 GBK 编码，乱码时切换编码后重新选择文件。同一份成交单重复导入会按成交指纹自动跳过。
+            </div>
+          </Panel>
+
+          {csv && (
+            <div style={{ marginTop: 12 }}>
+              <Panel>
+                <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8, flexWrap: "wrap" }}>
+                  <h3 style={{ margin: 0 }}>列映射</h3>
+                  <div style={{ display: "flex", gap: 6, flexWrap: "wrap" }}>
+                    <select style={{ ...inp, width: "auto" }} value={csvPreset.id} onChange={(e) => { const p = presets.find((x) => x.id === e.target.value); if (p) setCsvPreset(p); }}>
+                      {!csvPreset.id && <option value="">（自定义）</option>}
+                      {presets.map((p) => (
+                        <option key={p.id} value={p.id}>{p.name}</option>
+                      ))}
+                    </select>
+                    <button style={btn2s} onClick={saveCsvPreset}>保存为预设</button>
+                    {csvPreset.id && !csvPreset.builtin && <button style={btn2s} onClick={() => delCsvPreset(csvPreset.id)}>删除预设</button>}
+                  </div>
+                </div>
+                <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 10, marginTop: 10 }}>
+                  {BROKER_FIELDS.map((f) => (
+                    <div key={f.k}>
+                      <div style={{ color: "#666", fontSize: 12 }}>{f.t}{f.required ? " *" : ""}</div>
+                      <select style={inp} value={csvPreset.map[f.k] || ""} onChange={(e) => setCsvColumn(f.k, e.target.value)}>
+                        <option value="">（不导入）</option>
+                        {csv.rows[0].map((h) => (
+                          <option key={h} value={h}>{h}</option>
+                        ))}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+                <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 10, marginTop: 10 }}>
+                  <input style={inp} placeholder="表示买入的文字（逗号分隔）" value={csvPreset.buyWords.join(",")}
+                    onChange={(e) => setCsvPreset((p) => ({ ...p, id: "", builtin: false, buyWords: e.target.value.split(",").map((x) => x.trim()).filter(Boolean) }))} />
+                  <input style={inp} placeholder="表示卖出的文字（逗号分隔）" value={csvPreset.sellWords.join(",")}
+                    onChange={(e) => setCsvPreset((p) => ({ ...p, id: "", builtin: false, sellWords: e.target.value.split(",").map((x) => x.trim()).filter(Boolean) }))} />
+                </div>
+              </Panel>
+            </div>
+          )}
+
+          {brokerPreview && (
+            <div style={{ marginTop: 12 }}>
+              <Panel>
+                <h3 style={{ margin: 0 }}>导入预览</h3>
+                <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 10, marginTop: 10 }}>
+                  <Mini label="识别成交" value={new Set(brokerPreview.plan.map((p) => p.f.fp)).size} />
+                  <Mini label="新建/匹配" value={`${brokerPreview.plan.filter((p) => p.action === "new").length} / ${brokerPreview.plan.filter((p) => ["planned", "entry", "exit"].includes(p.action)).length}`} />
+                  <Mini label="重复" value={brokerPreview.plan.filter((p) => p.action === "duplicate").length} />
+                  <Mini label="未匹配" value={brokerPreview.plan.filter((p) => p.action === "unmatched").length} />
+                </div>
+                {brokerPreview.errors.map((e) => (
+                  <div key={e} style={{ color: "#b45309", fontSize: 12, marginTop: 6 }}>⚠️ {e}</div>
+                ))}
+                {brokerPreview.plan.length > 0 && (
+                  <div style={{ overflowX: "auto", marginTop: 10, maxHeight: 420, overflowY: "auto" }}>
+                    <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+                      <thead>
+                        <tr style={{ textAlign: "left", color: "#666" }}>
+                          <th style={th}>行</th>
+                          <th style={th}>时间</th>
+                          <th style={th}>标的</th>
+                          <th style={th}>方向</th>
+                          <th style={th}>价格 × 数量</th>
+                          <th style={th}>费用</th>
+                          <th style={th}>处理</th>
+                        </tr>
+                      </thead>
+                      <tbody>
+                        {brokerPreview.plan.map(({ f, action }, i) => (
+                          <tr key={`${f.fp}-${i}`} style={{ borderTop: "1px solid #eee", color: action === "duplicate" || action === "unmatched" ? "#999" : undefined }}>
+                            <td style={td}>{f.row}</td>
+                            <td style={td}>{new Date(f.ts).toLocaleString()}</td>
+                            <td style={td}>{f.symbol}{f.name ? ` · ${f.name}` : ""}</td>
+                            <td style={td}>{f.side === "buy" ? "买入" : "卖出"}</td>
+                            <td style={td}>{fmt(f.price, 3)} × {fmt(f.qty, 0)}</td>
+                            <td style={td}>{fmt(f.fee, 2)}</td>
+                            <td style={td}>{BROKER_ACTION_LABEL[action]}</td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+                <div style={{ display: "flex", gap: 8, marginTop: 10 }}>
+                  <button style={btn2} onClick={() => setCsv(null)}>取消</button>
+                  <button style={btn1} onClick={commitCSV}>确认导入</button>
+                </div>
+              </Panel>
+            </div>
+          )}
+
+          <div style={{ marginTop: 12 }}>
+            <Panel>
+              <h3 style={{ margin: 0 }}>历史行情（日线 OHLC）</h3>
+              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 2fr", gap: 10, marginTop: 10 }}>
+                <input style={inp} placeholder="代码（文件无代码列时填写）" value={barSymbol} onChange={(e) => setBarSymbol(e.target.value)} />
+                <button style={btn2} onClick={() => barsRef.current?.click()}>选择日线 CSV</button>
+                <div style={{ ...miniBox, fontSize: 13 }}>
+                  {Object.keys(bars).length ? `已存 ${Object.keys(bars).length} 个代码` : "暂无日线"}
+                  {barsMissing.length > 0 && <span style={{ color: "#b45309" }}> · 已平仓缺少日线：{barsMissing.slice(0, 8).join("、")}{barsMissing.length > 8 ? ` 等 ${barsMissing.length} 个` : ""}</span>}
+                </div>
+                <input ref={barsRef} type="file" accept=".csv,.txt,text/csv" style={{ display: "none" }}
+                  onChange={(e) => { const f = e.target.files?.[0]; if (f) importBars(f); e.currentTarget.value = ""; }} />
+              </div>
+              <div style={{ color: "#888", fontSize: 12, marginTop: 8 }}>
+                需要 日期/开盘/最高/最低/收盘 列（中英文表头均可），可带 代码/成交量 列；编码沿用上方选择。同一天重复导入以新数据为准。
+                未填代码且文件无代码列时，以文件名作为代码（如 600089.csv）。
+              </div>
+              {Object.keys(bars).length > 0 && (
+                <div style={{ overflowX: "auto", marginTop: 10 }}>
+                  <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+                    <thead>
+                      <tr style={{ textAlign: "left", color: "#666" }}>
+                        <th style={th}>代码</th>
+                        <th style={th}>K 线</th>
+                        <th style={th}>起</th>
+                        <th style={th}>止</th>
+                        <th style={th}>相关交易</th>
+                        <th style={th}></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {Object.keys(bars).sort().map((k) => (
+                        <tr key={k} style={{ borderTop: "1px solid #eee" }}>
+                          <td style={{ ...td, fontWeight: 800 }}>{k}</td>
+                          <td style={td}>{bars[k].length}</td>
+                          <td style={td}>{dateInput(bars[k][0]?.ts)}</td>
+                          <td style={td}>{dateInput(bars[k][bars[k].length - 1]?.ts)}</td>
+                          <td style={td}>{trades.filter((t) => normSymbol(t.symbol) === k).length}</td>
+                          <td style={td}><button style={btn2s} onClick={() => delBars(k)}>删除</button></td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </Panel>
+          </div>
         </div>
       )}
 
@@ -659,16 +5307,577 @@ export default function TradingConsole() {
           <Panel>
             <h3 style={{ margin: 0 }}>全局风控设置</h3>
             <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: 10, marginTop: 10 }}>
-              <input style={inp} type="number" value={settings.equity} onChange={(e) => setSettings((s) => ({ ...s, equity: Number(e.target.value) }))} placeholder="账户权益" />
-              <input style={inp} type="number" value={settings.maxRiskPct} onChange={(e) => setSettings((s) => ({ ...s, maxRiskPct: Number(e.target.value) }))} placeholder="单笔最大风险%" />
-              <input style={inp} type="number" value={settings.lotSize} onChange={(e) => setSettings((s) => ({ ...s, lotSize: Number(e.target.value) }))} placeholder="手数/最小单位" />
+              <input style={inp} type="number" value={settings.maxRiskPct} onChange={(e) => setSettings((s) => ({ ...s, maxRiskPct: Number(e.target.value) }))} placeholder="单笔最大风险%" title="单笔最大风险%" />
+              <input style={inp} value={settings.baseCurrency} onChange={(e) => setSettings((s) => ({ ...s, baseCurrency: e.target.value.trim().toUpperCase() }))} placeholder="基准币种" title="合并视图的基准币种" />
             </div>
             <div style={{ color: "#888", fontSize: 12, marginTop: 8 }}>
               建议：单笔风险 0.5%–1.5%。你做中线票，先保命再谈利润。
             </div>
+
+            <h3 style={{ margin: "14px 0 0" }}>账户</h3>
+            <div style={{ overflowX: "auto", marginTop: 10 }}>
+              <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+                <thead>
+                  <tr style={{ textAlign: "left", color: "#666" }}>
+                    <th style={th}>名称</th>
+                    <th style={th}>币种</th>
+                    <th style={th}>期初资金</th>
+                    <th style={th}>仓位基准</th>
+                    <th style={th}>手数</th>
+                    <th style={th}>手续费%</th>
+                    <th style={th}>平仓费%</th>
+                    <th style={th}>滑点</th>
+                    <th style={th}>费用方案</th>
+                    <th style={th}>合约乘数</th>
+                    <th style={th}></th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {settings.accounts.map((a) => (
+                    <tr key={a.id}>
+                      <td style={td}><input style={inp} value={a.name} onChange={(e) => patchAccount(a.id, { name: e.target.value })} /></td>
+                      <td style={td}><input style={inp} value={a.currency} onChange={(e) => patchAccount(a.id, { currency: e.target.value.trim().toUpperCase() })} /></td>
+                      <td style={td}><input style={inp} type="number" value={a.equity} onChange={(e) => patchAccount(a.id, { equity: Number(e.target.value) })} /></td>
+                      <td style={td}>
+                        <select style={inp} value={a.sizing || "ledger"} onChange={(e) => patchAccount(a.id, { sizing: e.target.value as SizingBasis })}>
+                          {(Object.keys(SIZING_LABEL) as SizingBasis[]).map((k) => (
+                            <option key={k} value={k}>{SIZING_LABEL[k]}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td style={td}><input style={inp} type="number" value={a.lotSize} onChange={(e) => patchAccount(a.id, { lotSize: Number(e.target.value) })} /></td>
+                      <td style={td}><input style={inp} type="number" value={a.feePct} onChange={(e) => patchAccount(a.id, { feePct: Number(e.target.value) })} /></td>
+                      <td style={td}><input style={inp} type="number" value={a.exitFeePct} onChange={(e) => patchAccount(a.id, { exitFeePct: Number(e.target.value) })} /></td>
+                      <td style={td}><input style={inp} type="number" value={a.slippage} onChange={(e) => patchAccount(a.id, { slippage: Number(e.target.value) })} /></td>
+                      <td style={td}>
+                        <select style={inp} value={a.feeSchedule || ""} onChange={(e) => patchAccount(a.id, { feeSchedule: e.target.value || undefined })}>
+                          <option value="">简单费率</option>
+                          {allSchedules.map((f) => (
+                            <option key={f.id} value={f.id}>{f.name}</option>
+                          ))}
+                        </select>
+                      </td>
+                      <td style={td}><input style={inp} type="number" value={a.multiplier} onChange={(e) => patchAccount(a.id, { multiplier: Number(e.target.value) })} /></td>
+                      <td style={td}><button style={btn2s} onClick={() => removeAccount(a.id)}>删除</button></td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+              <button style={btn2s} onClick={addAccount}>＋ 新增账户</button>
+            </div>
+            <div style={{ color: "#888", fontSize: 12, marginTop: 8 }}>
+              账户参数用于新建计划的仓位计算与默认成本；已保存的交易保留当时的参数快照。账本权益 = 期初资金 + 出入金/分红 + 已实现盈亏。选了费用方案时按方案计费，手续费%/平仓费% 不再使用（滑点仍生效）。
+            </div>
+
+            {settings.accounts.some((a) => a.currency !== settings.baseCurrency) && (
+              <>
+                <h3 style={{ margin: "14px 0 0" }}>汇率（1 单位外币 = ? {settings.baseCurrency}）</h3>
+                <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 10, marginTop: 10 }}>
+                  {Array.from(new Set(settings.accounts.map((a) => a.currency).filter((c) => c !== settings.baseCurrency))).map((c) => (
+                    <input
+                      key={c}
+                      style={inp}
+                      type="number"
+                      value={settings.fx[c] || ""}
+                      placeholder={`${c} 汇率`}
+                      title={`${c} → ${settings.baseCurrency}`}
+                      onChange={(e) => setSettings((s) => ({ ...s, fx: { ...s.fx, [c]: Number(e.target.value) } }))}
+                    />
+                  ))}
+                </div>
+              </>
+            )}
+
+            <h3 style={{ margin: "14px 0 0" }}>行情源</h3>
+            <div style={{ display: "grid", gridTemplateColumns: "1fr 2fr 1fr 1fr", gap: 10, marginTop: 10 }}>
+              <select style={inp} value={settings.quoteSource || "manual"} onChange={(e) => setSettings((s) => ({ ...s, quoteSource: e.target.value as any }))}>
+                <option value="manual">手动录入</option>
+                <option value="http">本地 HTTP/JSON</option>
+              </select>
+              <input style={inp} value={settings.quoteUrl || ""} onChange={(e) => setSettings((s) => ({ ...s, quoteUrl: e.target.value }))} placeholder="行情接口地址" title="行情接口地址" />
+              <input style={inp} type="number" value={settings.quoteRefreshSec ?? 0} onChange={(e) => setSettings((s) => ({ ...s, quoteRefreshSec: Number(e.target.value) }))} placeholder="自动刷新秒数（0=关）" title="自动刷新秒数（0=关）" />
+              <input style={inp} type="number" value={settings.staleMin ?? 30} onChange={(e) => setSettings((s) => ({ ...s, staleMin: Number(e.target.value) }))} placeholder="过期阈值（分钟）" title="过期阈值（分钟）" />
+            </div>
+            <div style={{ color: "#888", fontSize: 12, marginTop: 8 }}>
+              HTTP 行情源请求 地址?symbols=代码1,代码2，返回 [{"{"}symbol, price, ts{"}"}] 或 {"{"}代码: 价格{"}"}。
+            </div>
+
+            <h3 style={{ margin: "14px 0 0" }}>止损/目标提醒</h3>
+            <div style={{ display: "grid", gridTemplateColumns: "1fr 2fr", gap: 10, marginTop: 10 }}>
+              <input style={inp} type="number" value={settings.alertNearPct ?? 0} onChange={(e) => setSettings((s) => ({ ...s, alertNearPct: Number(e.target.value) }))} placeholder="接近提醒距离%" title="接近提醒距离%（0=只在触及时提醒）" />
+              <label style={{ ...checkItem, alignItems: "center" }}>
+                <input type="checkbox" checked={!!settings.browserNotify} onChange={(e) => toggleBrowserNotify(e.target.checked)} />
+                同时发送浏览器通知
+              </label>
+            </div>
+
+            <h3 style={{ margin: "14px 0 0" }}>组合风控（0 = 不限）</h3>
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 10, marginTop: 10 }}>
+              <input style={inp} type="number" value={settings.maxHeatPct ?? 0} onChange={(e) => setSettings((s) => ({ ...s, maxHeatPct: Number(e.target.value) }))} placeholder="总持仓风险上限%" title="总持仓风险上限%" />
+              <input style={inp} type="number" value={settings.maxPositions ?? 0} onChange={(e) => setSettings((s) => ({ ...s, maxPositions: Number(e.target.value) }))} placeholder="最大持仓数" title="最大持仓数" />
+              <input style={inp} type="number" value={settings.maxIndustryPct ?? 0} onChange={(e) => setSettings((s) => ({ ...s, maxIndustryPct: Number(e.target.value) }))} placeholder="单行业敞口上限%" title="单行业敞口上限%" />
+              <input style={inp} type="number" value={settings.maxSymbolPct ?? 0} onChange={(e) => setSettings((s) => ({ ...s, maxSymbolPct: Number(e.target.value) }))} placeholder="单标的敞口上限%" title="单标的敞口上限%" />
+            </div>
           </Panel>
+
+          <div style={{ marginTop: 12 }}>
+            <Panel>
+              <h3 style={{ margin: 0 }}>资金流水</h3>
+              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr 1fr 2fr auto", gap: 8, marginTop: 10 }}>
+                <select style={inp} value={findAccount(settings.accounts, flowDraft.account).id} onChange={(e) => setFlowDraft((d) => ({ ...d, account: e.target.value }))}>
+                  {settings.accounts.map((a) => (
+                    <option key={a.id} value={a.id}>{a.name}</option>
+                  ))}
+                </select>
+                <select style={inp} value={flowDraft.kind} onChange={(e) => setFlowDraft((d) => ({ ...d, kind: e.target.value as CashKind }))}>
+                  {(Object.keys(CASH_LABEL) as CashKind[]).map((k) => (
+                    <option key={k} value={k}>{CASH_LABEL[k]}</option>
+                  ))}
+                </select>
+                <input style={inp} type="number" placeholder="金额（账户币种）" value={flowDraft.amount || ""} onChange={(e) => setFlowDraft((d) => ({ ...d, amount: Number(e.target.value) }))} />
+                <input style={inp} type="date" value={flowDraft.date} onChange={(e) => setFlowDraft((d) => ({ ...d, date: e.target.value }))} />
+                <input style={inp} placeholder="备注（可选）" value={flowDraft.note} onChange={(e) => setFlowDraft((d) => ({ ...d, note: e.target.value }))} />
+                <button style={btn1s} onClick={addCashFlow}>记录</button>
+              </div>
+              <div style={{ display: "grid", gridTemplateColumns: `repeat(${Math.min(4, settings.accounts.length)}, 1fr)`, gap: 10, marginTop: 10 }}>
+                {settings.accounts.map((a) => {
+                  const l = ledgers.get(a.id);
+                  return l ? (
+                    <Mini
+                      key={a.id}
+                      label={`${a.name} · 账本 / 最高`}
+                      value={`${fmt(l.current, 0)} / ${fmt(l.peak, 0)} ${a.currency}`}
+                    />
+                  ) : null;
+                })}
+              </div>
+              {cashflows.length === 0 ? (
+                <div style={{ color: "#666", fontSize: 13, marginTop: 10 }}>暂无出入金记录。</div>
+              ) : (
+                <div style={{ overflowX: "auto", marginTop: 10, maxHeight: 320, overflowY: "auto" }}>
+                  <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13 }}>
+                    <thead>
+                      <tr style={{ textAlign: "left", color: "#666" }}>
+                        <th style={th}>日期</th>
+                        <th style={th}>账户</th>
+                        <th style={th}>类型</th>
+                        <th style={th}>金额</th>
+                        <th style={th}>备注</th>
+                        <th style={th}></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {[...cashflows].sort((a, b) => b.ts - a.ts).map((f) => (
+                        <tr key={f.id} style={{ borderTop: "1px solid #eee" }}>
+                          <td style={td}>{new Date(f.ts).toLocaleDateString()}</td>
+                          <td style={td}>{findAccount(settings.accounts, f.account).name}</td>
+                          <td style={td}>{CASH_LABEL[f.kind]}</td>
+                          <td style={{ ...td, color: cashAmount(f) >= 0 ? "#047857" : "#b91c1c" }}>{fmt(cashAmount(f), 2)}</td>
+                          <td style={td}>{f.note || "-"}</td>
+                          <td style={td}><button style={btn2s} onClick={() => delCashFlow(f.id)}>删除</button></td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </Panel>
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <Panel>
+              <h3 style={{ margin: 0 }}>评分模型</h3>
+              <div style={{ display: "flex", gap: 8, marginTop: 10, flexWrap: "wrap" }}>
+                {settings.models.map((m) => (
+                  <TabButton key={m.id} onClick={() => editModel(m.id)} active={modelDraft?.id === m.id}>
+                    {m.name} v{m.version}
+                  </TabButton>
+                ))}
+                <button style={btn2s} onClick={() => newModel()}>＋ 新建</button>
+              </div>
+
+              {!modelDraft ? (
+                <div style={{ color: "#666", marginTop: 10 }}>选择一个模型进行编辑，或新建模型。</div>
+              ) : (
+                <div style={{ marginTop: 12 }}>
+                  <div style={{ display: "grid", gridTemplateColumns: "2fr 1fr", gap: 10 }}>
+                    <input style={inp} placeholder="模型名称" value={modelDraft.name} onChange={(e) => patchDraftModel({ name: e.target.value })} />
+                    <div style={{ ...miniBox }}>
+                      <div style={{ color: "#666", fontSize: 12 }}>版本</div>
+                      <div style={{ fontWeight: 800 }}>
+                        {modelDraft.version ? `v${modelDraft.version}（保存后 v${modelDraft.version + 1}）` : "未保存"}
+                      </div>
+                    </div>
+                  </div>
+
+                  <div style={{ fontWeight: 800, marginTop: 12 }}>清单项</div>
+                  {modelDraft.items.map((it, i) => (
+                    <div key={i} style={{ display: "grid", gridTemplateColumns: "1fr 2fr 80px auto auto", gap: 8, marginTop: 8, alignItems: "center" }}>
+                      <input style={inp} placeholder="key" value={it.k}
+                        onChange={(e) => patchDraftModel({ items: modelDraft.items.map((x, j) => (j === i ? { ...x, k: e.target.value } : x)) })} />
+                      <input style={inp} placeholder="名称" value={it.t}
+                        onChange={(e) => patchDraftModel({ items: modelDraft.items.map((x, j) => (j === i ? { ...x, t: e.target.value } : x)) })} />
+                      <input style={inp} type="number" placeholder="权重" value={it.w}
+                        onChange={(e) => patchDraftModel({ items: modelDraft.items.map((x, j) => (j === i ? { ...x, w: Number(e.target.value) } : x)) })} />
+                      <label style={{ fontSize: 12, display: "flex", gap: 4, alignItems: "center", whiteSpace: "nowrap" }}>
+                        <input type="checkbox" checked={!!it.mandatory}
+                          onChange={() => patchDraftModel({ items: modelDraft.items.map((x, j) => (j === i ? { ...x, mandatory: !x.mandatory } : x)) })} />
+                        必选
+                      </label>
+                      <button style={btn2s} onClick={() => patchDraftModel({ items: modelDraft.items.filter((_, j) => j !== i) })}>删除</button>
+                    </div>
+                  ))}
+                  <button style={{ ...btn2s, marginTop: 8 }}
+                    onClick={() => patchDraftModel({ items: [...modelDraft.items, { k: `item${modelDraft.items.length + 1}`, t: "", w: 10 }] })}>
+                    ＋ 清单项
+                  </button>
+
+                  <div style={{ fontWeight: 800, marginTop: 12 }}>结论档位（得分 ≥ 阈值）</div>
+                  {modelDraft.verdicts.map((v, i) => (
+                    <div key={i} style={{ display: "grid", gridTemplateColumns: "80px 1fr auto", gap: 8, marginTop: 8 }}>
+                      <input style={inp} type="number" value={v.min}
+                        onChange={(e) => patchDraftModel({ verdicts: modelDraft.verdicts.map((x, j) => (j === i ? { ...x, min: Number(e.target.value) } : x)) })} />
+                      <input style={inp} placeholder="结论文字" value={v.label}
+                        onChange={(e) => patchDraftModel({ verdicts: modelDraft.verdicts.map((x, j) => (j === i ? { ...x, label: e.target.value } : x)) })} />
+                      <button style={btn2s} onClick={() => patchDraftModel({ verdicts: modelDraft.verdicts.filter((_, j) => j !== i) })}>删除</button>
+                    </div>
+                  ))}
+                  <div style={{ display: "grid", gridTemplateColumns: "80px 1fr auto", gap: 8, marginTop: 8, alignItems: "center" }}>
+                    <div style={{ color: "#666", fontSize: 12 }}>其余</div>
+                    <input style={inp} placeholder="低于所有档位时的结论" value={modelDraft.fallback} onChange={(e) => patchDraftModel({ fallback: e.target.value })} />
+                    <button style={btn2s} onClick={() => patchDraftModel({ verdicts: [...modelDraft.verdicts, { min: 0, label: "" }] })}>＋ 档位</button>
+                  </div>
+
+                  <div style={{ display: "flex", gap: 8, marginTop: 12, flexWrap: "wrap" }}>
+                    <button style={btn2} onClick={() => setModelDraft(null)}>放弃修改</button>
+                    {modelDraft.version > 0 && <button style={btn2} onClick={() => newModel(modelDraft)}>复制为新模型</button>}
+                    {modelDraft.version > 0 && <button style={btn2} onClick={() => delModel(modelDraft.id)}>删除模型</button>}
+                    <button style={btn1} onClick={commitModel}>保存</button>
+                  </div>
+                  <div style={{ color: "#888", fontSize: 12, marginTop: 8 }}>
+                    每次保存版本号 +1。已保存的交易保留打分时的模型快照，得分与结论不会随模型修改而变化。
+                  </div>
+                </div>
+              )}
+            </Panel>
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <Panel>
+              <h3 style={{ margin: 0 }}>错误类型（复盘用）</h3>
+              <div style={{ display: "grid", gap: 8, marginTop: 10 }}>
+                {(settings.mistakes || []).map((m) => (
+                  <div key={m.id} style={{ display: "grid", gridTemplateColumns: "1fr auto", gap: 8 }}>
+                    <input style={inp} value={m.label} onChange={(e) => renameMistake(m.id, e.target.value)} />
+                    <button style={btn2s} onClick={() => delMistake(m.id)}>删除</button>
+                  </div>
+                ))}
+              </div>
+              <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+                <button style={btn2s} onClick={addMistake}>＋ 新增类型</button>
+              </div>
+              <div style={{ color: "#888", fontSize: 12, marginTop: 8 }}>
+                复盘记录保存类型 id，改名后历史复盘与统计随之更新。
+              </div>
+            </Panel>
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <Panel>
+              <h3 style={{ margin: 0 }}>费用方案</h3>
+              <div style={{ display: "flex", gap: 8, marginTop: 10, flexWrap: "wrap" }}>
+                {allSchedules.map((f) => (
+                  <TabButton key={f.id} onClick={() => editFee(f.id)} active={feeDraft?.id === f.id}>
+                    {f.name}{f.builtin ? "（内置）" : ""}
+                  </TabButton>
+                ))}
+                <button style={btn2s} onClick={() => newFee()}>＋ 新建</button>
+              </div>
+
+              {!feeDraft ? (
+                <div style={{ color: "#666", marginTop: 10 }}>选择一个方案查看或编辑。内置方案只读，可复制后修改为自己券商的费率。</div>
+              ) : (
+                <div style={{ marginTop: 12 }}>
+                  <input style={inp} placeholder="方案名称" value={feeDraft.name} disabled={feeDraft.builtin} onChange={(e) => setFeeDraft((f) => (f ? { ...f, name: e.target.value } : f))} />
+
+                  <div style={{ display: "grid", gridTemplateColumns: "1.5fr 1fr repeat(6, 1fr) auto", gap: 8, marginTop: 12, color: "#666", fontSize: 12 }}>
+                    <div>收费项</div>
+                    <div>收取方</div>
+                    <div>费率%</div>
+                    <div>每股/张</div>
+                    <div>每笔固定</div>
+                    <div>最低</div>
+                    <div>最高</div>
+                    <div>最高%</div>
+                    <div></div>
+                  </div>
+                  {feeDraft.components.map((c, i) => (
+                    <div key={i} style={{ display: "grid", gridTemplateColumns: "1.5fr 1fr repeat(6, 1fr) auto", gap: 8, marginTop: 8, alignItems: "center" }}>
+                      <input style={inp} placeholder="名称" value={c.name} disabled={feeDraft.builtin} onChange={(e) => patchFeeComponent(i, { name: e.target.value })} />
+                      <select style={inp} value={c.side} disabled={feeDraft.builtin} onChange={(e) => patchFeeComponent(i, { side: e.target.value as FeeComponent["side"] })}>
+                        <option value="both">双边</option>
+                        <option value="buy">买入</option>
+                        <option value="sell">卖出</option>
+                      </select>
+                      {(["rate", "perShare", "fixed", "min", "max", "maxPct"] as const).map((k) => (
+                        <input key={k} style={inp} type="number" value={c[k] ?? ""} disabled={feeDraft.builtin}
+                          onChange={(e) => patchFeeComponent(i, { [k]: e.target.value === "" ? undefined : Number(e.target.value) })} />
+                      ))}
+                      {!feeDraft.builtin && (
+                        <button style={btn2s} onClick={() => setFeeDraft((f) => (f ? { ...f, components: f.components.filter((_, j) => j !== i) } : f))}>删除</button>
+                      )}
+                    </div>
+                  ))}
+                  {!feeDraft.builtin && (
+                    <button style={{ ...btn2s, marginTop: 8 }} onClick={() => setFeeDraft((f) => (f ? { ...f, components: [...f.components, newComponent()] } : f))}>
+                      ＋ 收费项
+                    </button>
+                  )}
+
+                  <div style={{ display: "flex", gap: 8, marginTop: 12, flexWrap: "wrap" }}>
+                    <button style={btn2} onClick={() => setFeeDraft(null)}>{feeDraft.builtin ? "关闭" : "放弃修改"}</button>
+                    <button style={btn2} onClick={() => newFee(feeDraft)}>{feeDraft.builtin ? "复制为自定义" : "复制为新方案"}</button>
+                    {!feeDraft.builtin && (settings.feeSchedules || []).some((f) => f.id === feeDraft.id) && (
+                      <button style={btn2} onClick={() => delFee(feeDraft.id)}>删除方案</button>
+                    )}
+                    {!feeDraft.builtin && <button style={btn1} onClick={commitFee}>保存</button>}
+                  </div>
+                  <div style={{ color: "#888", fontSize: 12, marginTop: 8 }}>
+                    每项费用 = 成交额 × 费率% + 数量 × 每股/张 + 每笔固定，再按最低/最高封顶。印花税等只在卖出侧收取的请选「卖出」。
+                  </div>
+                </div>
+              )}
+            </Panel>
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <Panel>
+              <h3 style={{ margin: 0 }}>数据备份</h3>
+              {backups.length === 0 ? (
+                <div style={{ color: "#666", marginTop: 10 }}>暂无备份。整体替换或覆盖式导入前会自动生成。</div>
+              ) : (
+                backups.map((b, i) => (
+                  <div key={b.ts} style={{ display: "flex", justifyContent: "space-between", alignItems: "center", gap: 8, marginTop: 8 }}>
+                    <div style={{ fontSize: 13 }}>
+                      {new Date(b.ts).toLocaleString()} · {b.reason}
+                      <span style={{ color: "#999" }}> · {(b.data?.trades || []).length} 笔</span>
+                    </div>
+                    <div style={{ display: "flex", gap: 6 }}>
+                      <button style={btn2s} onClick={() => downloadJSON(b.data, `trading_ops_backup_${b.ts}.json`)}>下载</button>
+                      <button style={btn2s} onClick={() => restoreBackup(i)}>恢复</button>
+                    </div>
+                  </div>
+                ))
+              )}
+            </Panel>
+          </div>
+        </div>
+      )}
+
+      {reportData && (
+        <div className="print-report" style={{ position: "fixed", inset: 0, background: "#fff", overflow: "auto", zIndex: 60 }}>
+          <style>{PRINT_CSS}</style>
+          <div style={{ maxWidth: 900, margin: "0 auto", padding: 24 }}>
+            <div className="no-print" style={{ display: "flex", gap: 8, justifyContent: "flex-end" }}>
+              <button style={btn1s} onClick={() => window.print()}>打印 / 存为 PDF</button>
+              <button style={btn2s} onClick={() => setReport("")}>关闭</button>
+            </div>
+            <div style={{ fontSize: 22, fontWeight: 800 }}>交易复盘报告 · {reportData.label}</div>
+            <div style={{ color: "#666", fontSize: 13, marginTop: 4 }}>
+              {viewAcct ? viewAcct.name : `全部账户 · 按 ${viewCcy} 合并`}
+              {isFiltered(filter) ? " · 仅含日志筛选结果" : ""} · 生成于 {new Date().toLocaleString()}
+            </div>
+
+            <div style={{ display: "grid", gridTemplateColumns: "repeat(4, 1fr)", gap: 10, marginTop: 14 }}>
+              <Card title="净盈亏" value={`${fmt(reportData.pnl, 0)} ${viewCcy}`} sub={`费用 ${fmt(reportData.fees, 0)}`} />
+              <Card title="已平仓" value={`${reportData.list.length} 笔`} sub={`胜率 ${fmt(reportData.winRate * 100, 1)}%`} />
+              <Card title="Profit Factor" value={reportData.profitFactor === Infinity ? "∞" : fmt(reportData.profitFactor, 2)} sub={`平均R：${fmt(reportData.avgR, 2)}`} />
+              <Card title="期间收益" value={`${fmt(reportData.eq.twr * 100, 2)}%`} sub={`最大回撤 ${fmt(reportData.eq.maxDDPct * 100, 1)}% · 期初 ${fmt(reportData.start, 0)}`} />
+            </div>
+
+            <h3 style={{ marginBottom: 0 }}>权益曲线</h3>
+            {reportData.eq.points.length ? (
+              <EquityChart base={reportData.start} points={reportData.eq.points} />
+            ) : (
+              <div style={{ color: "#666", marginTop: 8 }}>本期没有已平仓交易。</div>
+            )}
+
+            {reportData.models.length > 0 && (
+              <>
+                <h3 style={{ marginBottom: 0 }}>按模型</h3>
+                <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13, marginTop: 8 }}>
+                  <thead>
+                    <tr style={{ textAlign: "left", color: "#666" }}>
+                      <th style={th}>模型</th>
+                      <th style={th}>笔数</th>
+                      <th style={th}>胜率</th>
+                      <th style={th}>平均盈利R</th>
+                      <th style={th}>平均亏损R</th>
+                      <th style={th}>期望值R</th>
+                      <th style={th}>Profit Factor</th>
+                      <th style={th}>PnL</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reportData.models.map((g) => (
+                      <tr key={g.key} style={{ borderTop: "1px solid #eee" }}>
+                        <td style={{ ...td, fontWeight: 800 }}>{g.key}</td>
+                        <td style={td}>{g.count}</td>
+                        <td style={td}>{fmt(g.winRate * 100, 1)}%</td>
+                        <td style={td}>{fmt(g.avgWinR, 2)}</td>
+                        <td style={td}>{fmt(g.avgLossR, 2)}</td>
+                        <td style={td}><RVal r={g.expectancy} /></td>
+                        <td style={td}>{g.profitFactor === Infinity ? "∞" : fmt(g.profitFactor, 2)}</td>
+                        <td style={td}>{fmt(g.pnl, 0)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )}
+
+            {reportData.review.rows.length > 0 && (
+              <>
+                <h3 style={{ marginBottom: 0 }}>错误代价（已复盘 {reportData.review.reviewed} / {reportData.review.closed}）</h3>
+                <table style={{ width: "100%", borderCollapse: "collapse", fontSize: 13, marginTop: 8 }}>
+                  <thead>
+                    <tr style={{ textAlign: "left", color: "#666" }}>
+                      <th style={th}>错误类型</th>
+                      <th style={th}>次数</th>
+                      <th style={th}>平均R</th>
+                      <th style={th}>估计代价</th>
+                      <th style={th}>PnL</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reportData.review.rows.map((r) => (
+                      <tr key={r.id} style={{ borderTop: "1px solid #eee" }}>
+                        <td style={{ ...td, fontWeight: 800 }}>{r.key}</td>
+                        <td style={td}>{r.count}</td>
+                        <td style={td}><RVal r={r.expectancy} /></td>
+                        <td style={td}><RVal r={r.cost} /> R</td>
+                        <td style={td}>{fmt(r.pnl, 0)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </>
+            )}
+
+            <h3 style={{ marginBottom: 0 }}>交易明细</h3>
+            <div style={{ display: "grid", gap: 8, marginTop: 8 }}>
+              {reportData.list.map((t) => {
+                const L = calcLedger(t);
+                const rv = t.review;
+                return (
+                  <div key={t.id} className="print-trade" style={{ borderTop: "1px solid #eee", paddingTop: 8, fontSize: 13 }}>
+                    <div>
+                      <b>{t.symbol}</b>{t.name ? ` · ${t.name}` : ""} · {t.side === "long" ? "做多" : "做空"} · {tradeModel(t, settings.models).name}
+                      <span style={{ color: "#666" }}>
+                        {" "}· {dateInput(firstEntryAt(t))} → {dateInput(closedAt(t))} · {fmt(L.avgEntry, 3)} → {fmt(L.avgExit, 3)} × {L.entryQty}
+                      </span>
+                      <span style={{ float: "right" }}>
+                        {fmt(t.pnl, 0)} · {typeof t.r === "number" && hasR(t) ? <><RVal r={t.r} /> R</> : "无止损"}
+                      </span>
+                    </div>
+                    {rv && (
+                      <div style={{ color: "#444", marginTop: 4 }}>
+                        复盘：{rv.followedPlan ? "遵守计划" : "未遵守计划"} · {EXIT_REASON_LABEL[rv.exitReason]} · 情绪 {EMOTION_LABEL[rv.emotion] || "-"}
+                        {rv.mistakes.length ? ` · 错误：${rv.mistakes.map((id) => (settings.mistakes || []).find((m) => m.id === id)?.label || id).join("、")}` : ""}
+                        {rv.lesson ? ` · ${rv.lesson}` : ""}
+                      </div>
+                    )}
+                    {t.notes && <div style={{ color: "#444", marginTop: 4, whiteSpace: "pre-wrap" }}>备注：{t.notes}</div>}
+                    {(t.journal || []).map((j, i) => (
+                      <div key={i} style={{ color: "#666", marginTop: 2, whiteSpace: "pre-wrap" }}>
+                        {new Date(j.ts).toLocaleDateString()} · {j.text}
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
         </div>
       )}
+
+      {lightbox && (
+        <div
+          onClick={() => setLightbox(null)}
+          style={{ position: "fixed", inset: 0, background: "rgba(0,0,0,0.8)", display: "flex", flexDirection: "column", alignItems: "center", justifyContent: "center", zIndex: 50, padding: 16 }}
+        >
+          {!fileUrls[lightbox.id] ? (
+            <div style={{ color: "#fff" }}>本地找不到该附件文件。</div>
+          ) : lightbox.type === "application/pdf" ? (
+            <iframe src={fileUrls[lightbox.id]} title={lightbox.name} style={{ width: "85vw", height: "82vh", border: 0, background: "#fff" }} onClick={(e) => e.stopPropagation()} />
+          ) : (
+            <img src={fileUrls[lightbox.id]} alt={lightbox.name} style={{ maxWidth: "92vw", maxHeight: "82vh", objectFit: "contain" }} onClick={(e) => e.stopPropagation()} />
+          )}
+          <div style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 10, color: "#fff", fontSize: 13 }} onClick={(e) => e.stopPropagation()}>
+            <span>{lightbox.name} · {lightbox.stage === "close" ? "平仓复盘" : "计划"} · {new Date(lightbox.ts).toLocaleString()}</span>
+            {fileUrls[lightbox.id] && <a href={fileUrls[lightbox.id]} download={lightbox.name} style={{ ...btn2s, textDecoration: "none" }}>下载</a>}
+            <button style={btn2s} onClick={() => setLightbox(null)}>关闭</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// 拖放 / 粘贴 / 点击选择文件（图片与 PDF）
+function AttachZone({ label, onFiles }: { label: string; onFiles: (files: File[]) => void }) {
+  const ref = useRef<HTMLInputElement | null>(null);
+  return (
+    <div
+      tabIndex={0}
+      onClick={() => ref.current?.click()}
+      onDragOver={(e) => e.preventDefault()}
+      onDrop={(e) => {
+        e.preventDefault();
+        onFiles(Array.from(e.dataTransfer.files));
+      }}
+      onPaste={(e) => {
+        const files = Array.from(e.clipboardData.files);
+        if (!files.length) return;
+        e.preventDefault();
+        onFiles(files);
+      }}
+      style={{ border: "1px dashed #ccc", borderRadius: 12, padding: 10, color: "#777", fontSize: 12, textAlign: "center", cursor: "pointer" }}
+    >
+      {label}
+      <input
+        ref={ref}
+        type="file"
+        multiple
+        accept="image/*,application/pdf"
+        style={{ display: "none" }}
+        onChange={(e) => {
+          onFiles(Array.from(e.target.files || []));
+          e.currentTarget.value = "";
+        }}
+      />
+    </div>
+  );
+}
+
+function Thumbs({ list, urls, onOpen, onRemove }: { list: Attachment[]; urls: Record<string, string>; onOpen: (a: Attachment) => void; onRemove?: (id: string) => void }) {
+  return (
+    <div style={{ display: "flex", gap: 6, flexWrap: "wrap", marginTop: 6 }}>
+      {list.map((a) => (
+        <div key={a.id} style={{ position: "relative" }} title={`${a.name}（${a.stage === "close" ? "平仓复盘" : "计划"}）`}>
+          <div
+            onClick={() => onOpen(a)}
+            style={{ width: 48, height: 48, borderRadius: 8, border: "1px solid #ddd", overflow: "hidden", cursor: "zoom-in", display: "flex", alignItems: "center", justifyContent: "center", background: "#f5f5f5", fontSize: 18 }}
+          >
+            {a.type.startsWith("image/") && urls[a.id] ? <img src={urls[a.id]} alt={a.name} style={{ width: "100%", height: "100%", objectFit: "cover" }} /> : a.type === "application/pdf" ? "📄" : "🖼"}
+          </div>
+          {onRemove && (
+            <button onClick={() => onRemove(a.id)} style={{ position: "absolute", top: -6, right: -6, width: 18, height: 18, borderRadius: 9, border: "1px solid #ddd", background: "#fff", fontSize: 11, lineHeight: "14px", padding: 0, cursor: "pointer" }}>×</button>
+          )}
+        </div>
+      ))}
     </div>
   );
 }
@@ -701,6 +5910,106 @@ function TabButton({ active, children, onClick }: any) {
   );
 }
 
+// 纯 SVG 绘图，不引第三方图表库，离线（PWA）也能用
+const CW = 1000;
+const CH = 260;
+const PAD = { l: 64, r: 12, t: 12, b: 28 };
+
+function EquityChart({ base, points }: { base: number; points: EquityPoint[] }) {
+  const xs = [points[0].ts, points[points.length - 1].ts];
+  const vals = points.flatMap((p) => [p.equity, p.peak]).concat(base);
+  const lo = Math.min(...vals);
+  const hi = Math.max(...vals);
+  const span = hi - lo || 1;
+  const tspan = xs[1] - xs[0] || 1;
+
+  const x = (ts: number) => PAD.l + ((ts - xs[0]) / tspan) * (CW - PAD.l - PAD.r);
+  const y = (v: number) => PAD.t + (1 - (v - lo) / span) * (CH - PAD.t - PAD.b);
+  const line = (k: "equity" | "peak") => points.map((p) => `${x(p.ts).toFixed(1)},${y(p[k]).toFixed(1)}`).join(" ");
+
+  // 回撤区域：峰值线与权益线之间
+  const area =
+    points.map((p) => `${x(p.ts).toFixed(1)},${y(p.peak).toFixed(1)}`).join(" ") +
+    " " +
+    [...points].reverse().map((p) => `${x(p.ts).toFixed(1)},${y(p.equity).toFixed(1)}`).join(" ");
+
+  return (
+    <svg viewBox={`0 0 ${CW} ${CH}`} style={{ width: "100%", height: "auto", marginTop: 10 }}>
+      <line x1={PAD.l} x2={CW - PAD.r} y1={y(base)} y2={y(base)} stroke="#ddd" strokeDasharray="4 4" />
+      <polygon points={area} fill="#fee2e2" />
+      <polyline points={line("peak")} fill="none" stroke="#999" strokeDasharray="6 4" strokeWidth={1.5} />
+      <polyline points={line("equity")} fill="none" stroke="#111" strokeWidth={2} />
+      <text x={PAD.l - 6} y={y(hi) + 4} fontSize={12} fill="#666" textAnchor="end">{fmt(hi, 0)}</text>
+      <text x={PAD.l - 6} y={y(lo) + 4} fontSize={12} fill="#666" textAnchor="end">{fmt(lo, 0)}</text>
+      <text x={PAD.l} y={CH - 8} fontSize={12} fill="#666">{new Date(xs[0]).toLocaleDateString()}</text>
+      <text x={CW - PAD.r} y={CH - 8} fontSize={12} fill="#666" textAnchor="end">{new Date(xs[1]).toLocaleDateString()}</text>
+    </svg>
+  );
+}
+
+function BarChart({ bars }: { bars: { label: string; value: number }[] }) {
+  const hi = Math.max(0, ...bars.map((b) => b.value));
+  const lo = Math.min(0, ...bars.map((b) => b.value));
+  const span = hi - lo || 1;
+  const slot = (CW - PAD.l - PAD.r) / bars.length;
+  const y = (v: number) => PAD.t + (1 - (v - lo) / span) * (CH - PAD.t - PAD.b);
+  // 标签太密时隔几个显示一次
+  const every = Math.ceil(bars.length / 12);
+
+  return (
+    <svg viewBox={`0 0 ${CW} ${CH}`} style={{ width: "100%", height: "auto", marginTop: 10 }}>
+      <line x1={PAD.l} x2={CW - PAD.r} y1={y(0)} y2={y(0)} stroke="#ccc" />
+      {bars.map((b, i) => {
+        const bx = PAD.l + i * slot + slot * 0.15;
+        const top = Math.min(y(b.value), y(0));
+        return (
+          <g key={b.label}>
+            <rect x={bx} y={top} width={slot * 0.7} height={Math.max(1, Math.abs(y(b.value) - y(0)))} fill={b.value >= 0 ? "#047857" : "#b91c1c"}>
+              <title>{`${b.label}：${fmt(b.value, 0)}`}</title>
+            </rect>
+            {i % every === 0 && (
+              <text x={bx + slot * 0.35} y={CH - 8} fontSize={11} fill="#666" textAnchor="middle">{b.label}</text>
+            )}
+          </g>
+        );
+      })}
+      <text x={PAD.l - 6} y={y(hi) + 4} fontSize={12} fill="#666" textAnchor="end">{fmt(hi, 0)}</text>
+      <text x={PAD.l - 6} y={y(lo) + 4} fontSize={12} fill="#666" textAnchor="end">{fmt(lo, 0)}</text>
+    </svg>
+  );
+}
+
+function RVal({ r }: { r: number }) {
+  return <span style={{ color: r >= 0 ? "#047857" : "#b91c1c", fontWeight: 800 }}>{fmt(r, 2)}</span>;
+}
+
+function RHist({ counts }: { counts: number[] }) {
+  const max = Math.max(1, ...counts);
+  const w = 16;
+  const h = 36;
+  return (
+    <svg width={counts.length * w} height={h + 2}>
+      {counts.map((c, i) => (
+        <rect key={i} x={i * w + 2} y={h - (c / max) * h} width={w - 4} height={Math.max(1, (c / max) * h)}
+          fill={R_BINS[i] <= 0 ? "#b91c1c" : "#047857"} opacity={c ? 1 : 0.2}>
+          <title>{`${R_BIN_LABELS[i]}R：${c} 笔`}</title>
+        </rect>
+      ))}
+    </svg>
+  );
+}
+
+// 打印复盘报告时只输出报告本身
+const PRINT_CSS = `
+@media print {
+  .app-root > *:not(.print-report) { display: none !important; }
+  .print-report { position: static !important; overflow: visible !important; }
+  .no-print { display: none !important; }
+  .print-report tr, .print-trade { break-inside: avoid; }
+}
+@page { margin: 12mm; }
+`;
+
 const inp: React.CSSProperties = { padding: 12, border: "1px solid #ddd", borderRadius: 12, width: "100%" };
 const miniBox: React.CSSProperties = { border: "1px solid #eee", borderRadius: 14, padding: 12, background: "#fafafa" };
 const checkItem: React.CSSProperties = { border: "1px solid #eee", borderRadius: 14, padding: 12, display: "flex", gap: 10, alignItems: "flex-start", background: "#fff" };
@@ -715,4 +6024,5 @@ const tabOn: React.CSSProperties = { ...btn1s, padding: "10px 12px" };
 const tabOff: React.CSSProperties = { ...btn2s, padding: "10px 12px" };
 
 const th: React.CSSProperties = { padding: 10, fontWeight: 700 };
+const thSort: React.CSSProperties = { ...th, cursor: "pointer", userSelect: "none" };
 const td: React.CSSProperties = { padding: 10, verticalAlign: "top" };